@@ -1,40 +1,113 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import PDFViewer from './components/PDFViewer';
 import BoundingBoxOverlay from './components/BoundingBoxOverlay';
 import DrawingLayer from './components/DrawingLayer';
 import HighlightLayer from './components/HighlightLayer';
 import Toolbar from './components/Toolbar';
 import Sidebar from './components/Sidebar';
-import { recognizePage, terminateOCR } from './services/ocrService';
-import { embedOCRText, downloadPDF } from './services/pdfExport';
+import { DEFAULT_OCR_DPI, DEFAULT_OCR_LANGUAGE, recognizePdfPage, setOCRLanguage, terminateOCR } from './services/ocrService';
+import { ocrDocument, type BatchOCRProgress } from './services/batchOCR';
+import { getPageDimensions, type PdfDocumentProxy, type PdfRenderablePage } from './services/pageRenderer';
+import { exportPDF, downloadPDF } from './services/pdfExport';
 import { extractPageText } from './services/pdfTextExtractor';
+import { importDocumentAnnotations } from './services/pdfAnnotationImport';
+import { downloadFile, withExtension } from './utils/download';
+import { getTextRegions } from './utils/textLayout';
+import { searchDocument, type SearchHit, type SearchMode } from './utils/textSearch';
 import { useFieldStore } from './services/fieldStore';
-import type { AnnotationMode, OCRResult, PageDimensions } from './types';
+import { useAnnotationStore } from './services/annotationStore';
+import { useHistoryStore } from './services/historyStore';
+import { hashBytes, loadSession, loadSessionDocument, saveSession } from './services/sessionDB';
+import { parseProject, serializeProject, PROJECT_FILE_SUFFIX } from './services/projectFile';
+import { collectFields, fieldsToCSV, fieldsToJSON, fieldsToRecord, type FieldExportFormat } from './services/fieldExport';
+import { toALTO, toHOCR, type OCRExportFormat, type OCRExportPage } from './services/ocrExport';
+import { parseOCRSidecar } from './services/ocrImport';
+import { tableToCSV, tableToJSON, type TableExportFormat } from './services/tableExport';
+import { useTemplateStore, applyTemplateToPage } from './services/templateStore';
+import type { AnnotationMode, DocumentSession, FieldAnnotation, OCRResult, PageDimensions, PdfImportRecord, TableAnnotation, TextGranularity } from './types';
 import './index.css';
 
 const SCALE_STEP = 0.2;
 const MIN_SCALE = 0.5;
 const MAX_SCALE = 3.0;
+/** Debounce between the last edit and the IndexedDB autosave (ms) */
+const AUTOSAVE_DELAY = 1000;
+/** Shared empty list — keeps store selectors from returning a new array on every render */
+const NO_FIELDS: FieldAnnotation[] = [];
+/** Nothing imported from the PDF — its exports replace none of its own annotations or fields */
+const NO_PDF_IMPORT: PdfImportRecord = { annotationRefs: [], fieldNames: [] };
+
+/**
+ * Session key for a document, or null when it cannot be hashed — Web Crypto
+ * only exists on secure origins (https, localhost), so plain-http setups
+ * open documents without sessions.
+ */
+function documentKey(bytes: Uint8Array): Promise<string | null> {
+    return hashBytes(bytes).catch((err) => {
+        console.warn('[Session] Hashing failed, autosave is off:', err);
+        return null;
+    });
+}
+
+/**
+ * Move the page's anchored fields to follow their anchors in a new or
+ * replaced OCR result, re-capturing their text from its words.
+ */
+function followAnchors(result: OCRResult): void {
+    const { fields, relocateFields } = useFieldStore.getState();
+    if ((fields.get(result.pageNumber) ?? []).some((f) => f.anchor)) relocateFields(result.pageNumber, result);
+}
+
+/** Work state that travels with a document (saved sessions, project files) */
+type DocumentState = Required<Pick<DocumentSession, 'ocrResults' | 'digitizedPages' | 'fields' | 'annotations' | 'pdfImport'>>;
 
 function App() {
     const [pdfFile, setPdfFile] = useState<File | null>(null);
     const [pdfBytes, setPdfBytes] = useState<Uint8Array | null>(null);
+    /** SHA-256 of `pdfBytes` — key of the autosaved session, null when it cannot be computed */
+    const [documentHash, setDocumentHash] = useState<string | null>(null);
     const [currentPage, setCurrentPage] = useState(1);
     const [numPages, setNumPages] = useState(0);
     const [scale, setScale] = useState(1.2);
     const [mode, setMode] = useState<AnnotationMode>('none');
     const [annotationColor, setAnnotationColor] = useState('#e74c3c');
     const [showBBoxes, setShowBBoxes] = useState(true);
+    const [granularity, setGranularity] = useState<TextGranularity>('word');
     const [isOCRRunning, setIsOCRRunning] = useState(false);
+    /** Resolution pages are rendered at for OCR, independent of `scale` */
+    const [ocrDpi, setOcrDpi] = useState(DEFAULT_OCR_DPI);
+    /** Tesseract language(s), e.g. `deu+eng` */
+    const [ocrLanguage, setOcrLanguage] = useState(DEFAULT_OCR_LANGUAGE);
     const [ocrResults, setOcrResults] = useState<Map<number, OCRResult>>(new Map());
     const [pageDimensions, setPageDimensions] = useState<PageDimensions>({ width: 0, height: 0 });
     /** CSS display dimensions of the rendered PDF canvas — used to size the overlay container. */
     const [canvasCSSSize, setCanvasCSSSize] = useState<PageDimensions>({ width: 0, height: 0 });
     /** Tracks which pages have embedded text (already digitized) */
     const [digitizedPages, setDigitizedPages] = useState<Set<number>>(new Set());
+    /** The PDF's own annotations and fields brought into the stores on open */
+    const [pdfImport, setPdfImport] = useState<PdfImportRecord>(NO_PDF_IMPORT);
+
+    /** Progress of the running "OCR all pages" job, or null when idle */
+    const [batchProgress, setBatchProgress] = useState<BatchOCRProgress | null>(null);
+    /** Document search query and the selected hit (index into the hits, -1 for none) */
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchMode, setSearchMode] = useState<SearchMode>('phrase');
+    const [activeHitIndex, setActiveHitIndex] = useState(-1);
 
-    const lastCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    /** pdf.js document proxy of the open PDF — used to render pages off-screen */
+    const pdfProxyRef = useRef<PdfDocumentProxy | null>(null);
+    const batchAbortRef = useRef<AbortController | null>(null);
     const isDraggingRef = useRef(false);
+    /** Page to show once the next document loads (set when opening a project) */
+    const pendingPageRef = useRef(1);
+    /** Pages the active template has already been applied to (reset per document/template) */
+    const templatedPagesRef = useRef<Set<number>>(new Set());
+    /** Template whose application `templatedPagesRef` tracks */
+    const templatedIdRef = useRef<string | null>(null);
+    /** True when the next document to load should have its own annotations imported */
+    const importPendingRef = useRef(false);
+
+    const activeTemplate = useTemplateStore((s) => s.getActiveTemplate());
 
     // Cleanup OCR worker on unmount
     useEffect(() => {
@@ -45,17 +118,97 @@ function App() {
 
     // ── File Handling ──────────────────────────────────────────────────────────
 
-    const handleOpenFile = useCallback(async (file: File) => {
+    /** Show a document and replace all per-document state with `state` */
+    const openDocument = useCallback((file: File, bytes: Uint8Array, hash: string | null, state: DocumentState) => {
         setPdfFile(file);
+        setPdfBytes(bytes);
+        setDocumentHash(hash);
         setCurrentPage(1);
         setNumPages(0);
-        setOcrResults(new Map());
-        setDigitizedPages(new Set());
-        // Read bytes for export later
-        const bytes = new Uint8Array(await file.arrayBuffer());
-        setPdfBytes(bytes);
+        setOcrResults(state.ocrResults);
+        setDigitizedPages(state.digitizedPages);
+        setPdfImport(state.pdfImport);
+        setActiveHitIndex(-1);
+        // Fields and markup belong to a single document
+        useFieldStore.getState().replaceAll(state.fields);
+        useAnnotationStore.getState().replaceAll(state.annotations);
+        // Undo must never cross into the previous document
+        useHistoryStore.getState().reset();
+        // Restored pages already carry their template fields
+        templatedPagesRef.current = new Set(state.ocrResults.keys());
+        importPendingRef.current = false;
+
+        // Store the document itself once; autosaves only rewrite the session state
+        if (!hash) return;
+        saveSession({ hash, fileName: file.name, updatedAt: Date.now(), ...state }, bytes)
+            .catch((err) => console.warn('[Session] Save failed:', err));
     }, []);
 
+    const handleOpenFile = useCallback(async (file: File) => {
+        // Read bytes for export later, and hash them to look up a saved session
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const hash = await documentKey(bytes);
+        const session = hash ? await loadSession(hash).catch((err) => {
+            console.warn('[Session] Restore failed:', err);
+            return null;
+        }) : null;
+
+        openDocument(file, bytes, hash, {
+            ocrResults: session?.ocrResults ?? new Map(),
+            digitizedPages: session?.digitizedPages ?? new Set(),
+            fields: session?.fields ?? new Map(),
+            annotations: session?.annotations ?? new Map(),
+            pdfImport: session?.pdfImport ?? NO_PDF_IMPORT,
+        });
+        // A restored session already holds whatever the PDF's annotations became
+        importPendingRef.current = !session;
+    }, [openDocument]);
+
+    const handleResumeSession = useCallback(async (hash: string) => {
+        const stored = await Promise.all([loadSession(hash), loadSessionDocument(hash)]).catch((err) => {
+            console.warn('[Session] Resume failed:', err);
+            return null;
+        });
+        if (!stored) return;
+        const [session, bytes] = stored;
+        if (!session || !bytes) return;
+        handleOpenFile(new File([bytes as BlobPart], session.fileName, { type: 'application/pdf' }));
+    }, [handleOpenFile]);
+
+    // ── Project Files ──────────────────────────────────────────────────────────
+
+    const handleSaveProject = useCallback(() => {
+        if (!pdfFile || !pdfBytes) return;
+        const project = serializeProject({
+            fileName: pdfFile.name,
+            pdfBytes,
+            ocrResults,
+            digitizedPages,
+            fields: useFieldStore.getState().fields,
+            annotations: useAnnotationStore.getState().annotations,
+            pdfImport,
+            view: { currentPage, scale, mode, annotationColor, showBBoxes },
+        });
+        downloadFile(project, withExtension(pdfFile.name, PROJECT_FILE_SUFFIX), 'application/json');
+    }, [pdfFile, pdfBytes, ocrResults, digitizedPages, pdfImport, currentPage, scale, mode, annotationColor, showBBoxes]);
+
+    const handleOpenProject = useCallback(async (file: File) => {
+        try {
+            const project = parseProject(await file.text());
+            const hash = await documentKey(project.pdfBytes);
+            const pdf = new File([project.pdfBytes as BlobPart], project.fileName, { type: 'application/pdf' });
+            openDocument(pdf, project.pdfBytes, hash, project);
+            // The page is applied once the document reports its page count
+            pendingPageRef.current = project.view.currentPage;
+            setScale(project.view.scale);
+            setMode(project.view.mode);
+            setAnnotationColor(project.view.annotationColor);
+            setShowBBoxes(project.view.showBBoxes);
+        } catch (err) {
+            console.error('Opening project failed', err);
+        }
+    }, [openDocument]);
+
     // ── Drag and Drop ──────────────────────────────────────────────────────────
 
     const handleDrop = useCallback(
@@ -72,11 +225,44 @@ function App() {
 
     // ── Page Navigation ────────────────────────────────────────────────────────
 
-    const handleDocumentLoad = useCallback((n: number) => {
-        setNumPages(n);
-        setCurrentPage(1);
+    /**
+     * Bring the PDF's own highlights, comments and form fields into the
+     * stores so they can be edited and re-exported. Counts as part of
+     * opening the document, so it is not undoable on its own.
+     */
+    const importExistingAnnotations = useCallback(async (pdf: PdfDocumentProxy) => {
+        try {
+            const imported = await importDocumentAnnotations(pdf);
+            // Another document was opened meanwhile
+            if (pdfProxyRef.current !== pdf || imported.pages.size === 0) return;
+
+            const hadHistory = useHistoryStore.getState().past.length > 0;
+            const { addFieldRect } = useFieldStore.getState();
+            const { addAnnotation } = useAnnotationStore.getState();
+            for (const [pageNumber, page] of imported.pages) {
+                page.annotations.forEach(addAnnotation);
+                for (const field of page.fields) {
+                    addFieldRect(pageNumber, field.name, field.bbox, field.value, [], { pdfFieldName: field.name });
+                }
+            }
+            setPdfImport(imported.record);
+            if (!hadHistory) useHistoryStore.getState().reset();
+        } catch (err) {
+            console.warn('[Import] Reading existing annotations failed:', err);
+        }
     }, []);
 
+    const handleDocumentLoad = useCallback((n: number, proxy: unknown) => {
+        pdfProxyRef.current = proxy as PdfDocumentProxy;
+        setNumPages(n);
+        setCurrentPage(Math.min(Math.max(1, pendingPageRef.current), n));
+        pendingPageRef.current = 1;
+        if (importPendingRef.current) {
+            importPendingRef.current = false;
+            importExistingAnnotations(pdfProxyRef.current);
+        }
+    }, [importExistingAnnotations]);
+
     const handlePageLoadSuccess = useCallback((dims: PageDimensions) => {
         setPageDimensions(dims);
     }, []);
@@ -90,6 +276,33 @@ function App() {
         [numPages]
     );
 
+    // ── Undo / Redo ────────────────────────────────────────────────────────────
+
+    const undo = useHistoryStore((s) => s.undo);
+    const redo = useHistoryStore((s) => s.redo);
+    const canUndo = useHistoryStore((s) => s.past.length > 0);
+    const canRedo = useHistoryStore((s) => s.future.length > 0);
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); Ctrl+Y also redoes
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            // Leave text inputs to their native undo
+            const target = e.target as HTMLElement | null;
+            if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [undo, redo]);
+
     // ── Zoom ───────────────────────────────────────────────────────────────────
 
     const zoomIn = useCallback(
@@ -113,7 +326,6 @@ function App() {
     // ── OCR ────────────────────────────────────────────────────────────────────
 
     const handlePageRender = useCallback((canvas: HTMLCanvasElement, _pageNumber: number) => {
-        lastCanvasRef.current = canvas;
         // offsetWidth/Height gives the actual CSS display size (excludes DPR, unaffected by physical pixels)
         setCanvasCSSSize({ width: canvas.offsetWidth, height: canvas.offsetHeight });
     }, []);
@@ -138,6 +350,7 @@ function App() {
                     return next;
                 });
                 setDigitizedPages((prev) => new Set([...prev, pageNumber]));
+                followAnchors(result);
             }
         } catch (err) {
             // Silently ignore — user can still run OCR manually
@@ -145,59 +358,239 @@ function App() {
         }
     }, [ocrResults]);
 
+    // Re-initialize the shared worker whenever the language choice changes
+    useEffect(() => {
+        setOCRLanguage(ocrLanguage).catch((err) => console.error('OCR language switch failed', err));
+    }, [ocrLanguage]);
+
     const runOCR = useCallback(async () => {
-        const canvas = lastCanvasRef.current;
-        if (!canvas) return;
+        const pdf = pdfProxyRef.current;
+        if (!pdf) return;
         setIsOCRRunning(true);
         try {
-            const result = await recognizePage(canvas, currentPage);
-            // Normalize bbox values to [0, 1] relative to the physical canvas size.
-            // This makes BoundingBoxOverlay zoom-invariant and DPR-independent
-            // (canvas.width/height include devicePixelRatio, so dividing cancels it out).
-            const cw = canvas.width;
-            const ch = canvas.height;
-            const normalized = {
-                ...result,
-                words: result.words.map((w) => ({
-                    ...w,
-                    bbox: {
-                        x0: w.bbox.x0 / cw,
-                        y0: w.bbox.y0 / ch,
-                        x1: w.bbox.x1 / cw,
-                        y1: w.bbox.y1 / ch,
-                    },
-                })),
-            };
+            // Render off-screen at the chosen DPI so quality does not depend on zoom
+            const page = await pdf.getPage(currentPage);
+            const result = await recognizePdfPage(page as PdfRenderablePage, currentPage, ocrDpi);
             setOcrResults((prev) => {
                 const next = new Map(prev);
-                next.set(currentPage, normalized);
+                next.set(currentPage, result);
                 return next;
             });
+            followAnchors(result);
         } catch (err) {
             console.error('OCR failed', err);
         } finally {
             setIsOCRRunning(false);
         }
-    }, [currentPage]);
+    }, [currentPage, ocrDpi]);
+
+    /** Use OCR results from an external engine's sidecar file for the pages it covers */
+    const handleImportOCR = useCallback(async (file: File) => {
+        try {
+            const imported = parseOCRSidecar(await file.text());
+            const pages = Array.from(imported.keys()).filter((n) => n >= 1 && n <= numPages);
+            if (pages.length === 0) {
+                console.warn(`[OCR] ${file.name} has no pages matching this document`);
+                return;
+            }
+            setOcrResults((prev) => {
+                const next = new Map(prev);
+                for (const n of pages) next.set(n, imported.get(n)!);
+                return next;
+            });
+            // Those pages now show the sidecar's words instead of embedded text
+            setDigitizedPages((prev) => new Set([...prev].filter((n) => !imported.has(n))));
+            for (const n of pages) followAnchors(imported.get(n)!);
+        } catch (err) {
+            console.error('OCR import failed', err);
+        }
+    }, [numPages]);
+
+    const runBatchOCR = useCallback(async () => {
+        const pdf = pdfProxyRef.current;
+        if (!pdf || batchAbortRef.current) return;
+        // Only pages without text — existing results (and the fields read from them) are kept
+        const pages = Array.from({ length: pdf.numPages }, (_, i) => i + 1).filter((n) => !ocrResults.has(n));
+        if (pages.length === 0) return;
+
+        const controller = new AbortController();
+        batchAbortRef.current = controller;
+        try {
+            await ocrDocument(pdf, {
+                pages,
+                dpi: ocrDpi,
+                signal: controller.signal,
+                onProgress: setBatchProgress,
+                onPageResult: (result, digitized) => {
+                    setOcrResults((prev) => new Map(prev).set(result.pageNumber, result));
+                    if (digitized) setDigitizedPages((prev) => new Set([...prev, result.pageNumber]));
+                    followAnchors(result);
+                },
+            });
+        } catch (err) {
+            console.error('Batch OCR failed', err);
+        } finally {
+            batchAbortRef.current = null;
+            setBatchProgress(null);
+        }
+    }, [ocrResults, ocrDpi]);
+
+    const cancelBatchOCR = useCallback(() => {
+        batchAbortRef.current?.abort();
+    }, []);
+
+    // Stop a running batch when another document is opened
+    useEffect(() => {
+        return () => batchAbortRef.current?.abort();
+    }, [pdfFile]);
+
+    // ── Templates ──────────────────────────────────────────────────────────────
+
+    // Start over whenever a different template is activated — turning the
+    // same one off and on again keeps the pages it was already applied to
+    useEffect(() => {
+        const id = activeTemplate?.id;
+        if (!id || id === templatedIdRef.current) return;
+        templatedIdRef.current = id;
+        templatedPagesRef.current = new Set();
+    }, [activeTemplate?.id]);
+
+    // Auto-apply the active template to every page as soon as it has words
+    useEffect(() => {
+        if (!activeTemplate) return;
+        for (const [pageNumber, result] of ocrResults) {
+            if (templatedPagesRef.current.has(pageNumber)) continue;
+            templatedPagesRef.current.add(pageNumber);
+            applyTemplateToPage(activeTemplate, result);
+        }
+    }, [activeTemplate, ocrResults]);
+
+    // ── Session autosave ───────────────────────────────────────────────────────
+
+    const allFields = useFieldStore((s) => s.fields);
+    const allAnnotations = useAnnotationStore((s) => s.annotations);
+
+    useEffect(() => {
+        if (!documentHash || !pdfFile) return;
+        const timer = setTimeout(() => {
+            saveSession({
+                hash: documentHash,
+                fileName: pdfFile.name,
+                updatedAt: Date.now(),
+                ocrResults,
+                digitizedPages,
+                fields: allFields,
+                annotations: allAnnotations,
+                pdfImport,
+            }).catch((err) => console.warn('[Session] Autosave failed:', err));
+        }, AUTOSAVE_DELAY);
+        return () => clearTimeout(timer);
+    }, [documentHash, pdfFile, ocrResults, digitizedPages, allFields, allAnnotations, pdfImport]);
 
     // ── Export ─────────────────────────────────────────────────────────────────
 
-    const handleExport = useCallback(async () => {
+    const handleExport = useCallback(async (fillable: boolean) => {
         if (!pdfBytes) return;
         try {
-            const exported = await embedOCRText(pdfBytes, ocrResults);
-            downloadPDF(exported, pdfFile?.name?.replace('.pdf', '_ocr.pdf') ?? 'export.pdf');
+            const exported = await exportPDF(pdfBytes, {
+                ocrResults,
+                digitizedPages,
+                annotations: useAnnotationStore.getState().annotations,
+                formFields: fillable ? useFieldStore.getState().fields : undefined,
+                pdfImport,
+            });
+            const suffix = fillable ? '_form.pdf' : '_ocr.pdf';
+            downloadPDF(exported, pdfFile?.name?.replace('.pdf', suffix) ?? 'export.pdf');
         } catch (err) {
             console.error('Export failed', err);
         }
-    }, [pdfBytes, ocrResults, pdfFile]);
+    }, [pdfBytes, ocrResults, digitizedPages, pdfImport, pdfFile]);
+
+    const handleExportFields = useCallback((format: FieldExportFormat) => {
+        const rows = collectFields(useFieldStore.getState().fields, ocrResults);
+        const name = pdfFile?.name;
+        if (format === 'csv') {
+            downloadFile(fieldsToCSV(rows), withExtension(name, '_fields.csv'), 'text/csv');
+        } else if (format === 'record') {
+            const record = fieldsToRecord(rows, name ?? 'document.pdf');
+            downloadFile(JSON.stringify(record, null, 2), withExtension(name, '_record.json'), 'application/json');
+        } else {
+            downloadFile(fieldsToJSON(rows), withExtension(name, '_fields.json'), 'application/json');
+        }
+    }, [ocrResults, pdfFile]);
+
+    const handleExportTable = useCallback((table: TableAnnotation, format: TableExportFormat) => {
+        const pageTables = (useAnnotationStore.getState().annotations.get(table.pageNumber) ?? [])
+            .filter((a) => a.type === 'table');
+        const name = withExtension(pdfFile?.name, `_p${table.pageNumber}_table${pageTables.indexOf(table) + 1}`);
+        if (format === 'csv') downloadFile(tableToCSV(table), `${name}.csv`, 'text/csv');
+        else downloadFile(tableToJSON(table), `${name}.json`, 'application/json');
+    }, [pdfFile]);
+
+    const handleExportOCR = useCallback(async (format: OCRExportFormat, scope: 'page' | 'document') => {
+        const pdf = pdfProxyRef.current;
+        if (!pdf) return;
+        const pageNumbers = scope === 'page'
+            ? [currentPage].filter((n) => ocrResults.has(n))
+            : Array.from(ocrResults.keys()).sort((a, b) => a - b);
+        if (pageNumbers.length === 0) return;
+
+        try {
+            const pages: OCRExportPage[] = await Promise.all(pageNumbers.map(async (n) => ({
+                result: ocrResults.get(n)!,
+                dimensions: await getPageDimensions(pdf, n),
+            })));
+            const name = pdfFile?.name ?? 'document.pdf';
+            const suffix = scope === 'page' ? `_p${currentPage}` : '_ocr';
+            if (format === 'alto') {
+                downloadFile(toALTO(pages, name), withExtension(name, `${suffix}.alto.xml`), 'application/xml');
+            } else {
+                downloadFile(toHOCR(pages, name), withExtension(name, `${suffix}.hocr`), 'text/html');
+            }
+        } catch (err) {
+            console.error('OCR export failed', err);
+        }
+    }, [currentPage, ocrResults, pdfFile]);
 
     // ──────────────────────────────────────────────────────────────────────────
 
     const currentOCR = ocrResults.get(currentPage) ?? null;
+    const currentRegions = useMemo(
+        () => (currentOCR ? getTextRegions(currentOCR, granularity) : []),
+        [currentOCR, granularity]
+    );
+    const currentTables = useMemo(
+        () => (allAnnotations.get(currentPage) ?? []).filter((a): a is TableAnnotation => a.type === 'table'),
+        [allAnnotations, currentPage]
+    );
+    const search = useMemo(() => {
+        try {
+            return { hits: searchDocument(ocrResults, searchQuery, searchMode), error: null };
+        } catch (err) {
+            return { hits: [] as SearchHit[], error: (err as Error).message };
+        }
+    }, [ocrResults, searchQuery, searchMode]);
+    const currentSearchHits = useMemo(
+        () => search.hits.filter((h) => h.pageNumber === currentPage),
+        [search.hits, currentPage]
+    );
+    const handleSearchQueryChange = useCallback((query: string) => {
+        setSearchQuery(query);
+        setActiveHitIndex(-1);
+    }, []);
+    const handleSearchModeChange = useCallback((nextMode: SearchMode) => {
+        setSearchMode(nextMode);
+        setActiveHitIndex(-1);
+    }, []);
+    const handleSelectHit = useCallback((index: number) => {
+        setActiveHitIndex(index);
+        setCurrentPage(search.hits[index].pageNumber);
+    }, [search.hits]);
     const isCurrentPageDigitized = digitizedPages.has(currentPage);
     // eslint-disable-next-line react-hooks/rules-of-hooks
     const currentFields = useFieldStore((s) => s.getPageFields(currentPage));
+    const currentSuggestions = useFieldStore((s) => s.suggestions.get(currentPage)) ?? NO_FIELDS;
+    const hasFields = useFieldStore((s) => Array.from(s.fields.values()).some((f) => f.length > 0));
 
     return (
         <div
@@ -213,19 +606,40 @@ function App() {
                 mode={mode}
                 annotationColor={annotationColor}
                 showBBoxes={showBBoxes}
+                granularity={granularity}
                 isOCRRunning={isOCRRunning}
                 isDigitized={isCurrentPageDigitized}
+                hasFields={hasFields}
+                hasPageOCR={ocrResults.has(currentPage)}
+                hasOCR={ocrResults.size > 0}
+                canUndo={canUndo}
+                canRedo={canRedo}
                 onPrevPage={prevPage}
                 onNextPage={nextPage}
+                onUndo={undo}
+                onRedo={redo}
                 onZoomIn={zoomIn}
                 onZoomOut={zoomOut}
                 onZoomReset={zoomReset}
                 onModeChange={setMode}
                 onColorChange={setAnnotationColor}
+                onGranularityChange={setGranularity}
                 onToggleBBoxes={() => setShowBBoxes((v) => !v)}
+                ocrDpi={ocrDpi}
+                onOcrDpiChange={setOcrDpi}
+                ocrLanguage={ocrLanguage}
+                onOcrLanguageChange={setOcrLanguage}
                 onRunOCR={runOCR}
+                batchProgress={batchProgress}
+                onRunBatchOCR={runBatchOCR}
+                onCancelBatchOCR={cancelBatchOCR}
+                onImportOCR={handleImportOCR}
                 onExportPDF={handleExport}
+                onExportFields={handleExportFields}
+                onExportOCR={handleExportOCR}
                 onOpenFile={handleOpenFile}
+                onSaveProject={handleSaveProject}
+                onOpenProject={handleOpenProject}
             />
 
             <div className="workspace">
@@ -250,12 +664,19 @@ function App() {
                         />
 
                         {/* Layer 2: OCR Bounding Box overlay — words have normalized [0-1] bboxes */}
-                        {showBBoxes && (currentOCR || currentFields.length > 0) && (
+                        {showBBoxes && (currentOCR || currentFields.length > 0 || currentTables.length > 0) && (
                             <BoundingBoxOverlay
                                 words={currentOCR?.words ?? []}
                                 pageNumber={currentPage}
                                 mode={mode}
                                 fieldAnnotations={currentFields}
+                                suggestions={currentSuggestions}
+                                granularity={granularity}
+                                regions={currentRegions}
+                                tables={currentTables}
+                                color={annotationColor}
+                                searchHits={currentSearchHits}
+                                activeSearchHitId={search.hits[activeHitIndex]?.id ?? null}
                             />
                         )}
 
@@ -285,7 +706,23 @@ function App() {
                 <Sidebar
                     currentPage={currentPage}
                     ocrResult={currentOCR}
+                    ocrResults={ocrResults}
                     isOCRRunning={isOCRRunning}
+                    batchProgress={batchProgress}
+                    ocrLanguage={ocrLanguage}
+                    documentHash={documentHash}
+                    onResumeSession={handleResumeSession}
+                    onExportTable={handleExportTable}
+                    search={{
+                        query: searchQuery,
+                        mode: searchMode,
+                        onQueryChange: handleSearchQueryChange,
+                        onModeChange: handleSearchModeChange,
+                        hits: search.hits,
+                        error: search.error,
+                        activeIndex: activeHitIndex,
+                        onSelectHit: handleSelectHit,
+                    }}
                 />
             </div>
         </div>
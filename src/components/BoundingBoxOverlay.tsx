@@ -1,19 +1,37 @@
 import React, { useState, useCallback, useRef } from 'react';
-import type { OCRWord, AnnotationMode, FieldAnnotation, OCRBBox } from '../types';
+import type { OCRWord, AnnotationMode, FieldAnnotation, OCRBBox, OCRTextRegion, TableAnnotation, TextGranularity } from '../types';
 import { useFieldStore } from '../services/fieldStore';
+import { useAnnotationStore } from '../services/annotationStore';
 import { captureTextInBox } from '../utils/textCapture';
+import { checkField } from '../utils/fieldValues';
+import type { SearchHit } from '../utils/textSearch';
+import { inferTableGrid, readTableCells } from '../utils/tableExtraction';
 
 interface BoundingBoxOverlayProps {
     words: OCRWord[];
     pageNumber: number;
     mode: AnnotationMode;
     fieldAnnotations: FieldAnnotation[];
+    /** Suggested fields, drawn dashed until accepted in the sidebar */
+    suggestions: FieldAnnotation[];
+    /** Level boxes are shown and clicked at; anything but 'word' uses `regions` */
+    granularity: TextGranularity;
+    /** Lines / paragraphs / blocks for the current granularity (see `getTextRegions`) */
+    regions: OCRTextRegion[];
+    tables: TableAnnotation[];
+    /** Color given to newly drawn tables */
+    color: string;
+    /** Document search hits on this page, highlighted word by word */
+    searchHits: SearchHit[];
+    activeSearchHitId: string | null;
 }
 
-interface TooltipState { word: OCRWord; x: number; y: number; }
+interface TooltipState { text: string; confidence: number; x: number; y: number; }
 interface Point { x: number; y: number; }
 interface LabelPopupState { x: number; y: number; }
 interface DragState { start: Point; current: Point; }
+interface MoveState { field: FieldAnnotation; start: Point; current: Point; }
+interface SeparatorDragState { table: TableAnnotation; index: number; x: number; }
 
 const confidenceColor = (c: number) =>
     c >= 80 ? 'rgba(72,199,142,.25)' : c >= 50 ? 'rgba(255,193,7,.25)' : 'rgba(249,65,68,.25)';
@@ -22,9 +40,24 @@ const confidenceBorder = (c: number) =>
 
 /** Min drag size in normalized units before we treat it as a drawn rect */
 const MIN_RECT = 0.01;
+/** Min drag distance in normalized units before a saved field is moved */
+const MIN_MOVE = 0.002;
+/** Closest a column separator may come to its neighbours, in normalized units */
+const MIN_COLUMN_WIDTH = 0.005;
+
+/** Translate `bbox` by the drag from `start` to `end`, kept inside the page */
+function movedBBox(bbox: OCRBBox, start: Point, end: Point): OCRBBox {
+    const w = bbox.x1 - bbox.x0;
+    const h = bbox.y1 - bbox.y0;
+    if (Math.abs(end.x - start.x) < MIN_MOVE && Math.abs(end.y - start.y) < MIN_MOVE) return bbox;
+    const x0 = Math.max(0, Math.min(1 - w, bbox.x0 + end.x - start.x));
+    const y0 = Math.max(0, Math.min(1 - h, bbox.y0 + end.y - start.y));
+    return { x0, y0, x1: x0 + w, y1: y0 + h };
+}
 
 const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
-    words, pageNumber, mode, fieldAnnotations,
+    words, pageNumber, mode, fieldAnnotations, suggestions, granularity, regions, tables, color,
+    searchHits, activeSearchHitId,
 }) => {
     const overlayRef = useRef<HTMLDivElement>(null);
     /** Stores words touched by the drawn rect (for wordIds in the field) */
@@ -41,10 +74,18 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
     const [dragState, setDragState] = useState<DragState | null>(null);
     /** bbox of a completed drag, waiting for the user to type a label */
     const [pendingRect, setPendingRect] = useState<OCRBBox | null>(null);
+    /** Saved field currently being dragged to a new position */
+    const [moveState, setMoveState] = useState<MoveState | null>(null);
+    /** Table column separator being dragged */
+    const [separatorDrag, setSeparatorDrag] = useState<SeparatorDragState | null>(null);
 
     const addField = useFieldStore((s) => s.addField);
     const addFieldRect = useFieldStore((s) => s.addFieldRect);
     const removeField = useFieldStore((s) => s.removeField);
+    const moveField = useFieldStore((s) => s.moveField);
+    const addAnnotation = useAnnotationStore((s) => s.addAnnotation);
+    const updateAnnotation = useAnnotationStore((s) => s.updateAnnotation);
+    const removeAnnotation = useAnnotationStore((s) => s.removeAnnotation);
 
     // wordId → which field contains it (for coloring)
     const wordFieldMap: Record<string, FieldAnnotation> = {};
@@ -52,6 +93,9 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
         for (const wid of fa.wordIds) wordFieldMap[wid] = fa;
 
     const isFieldMode = mode === 'field';
+    const isTableMode = mode === 'table';
+    /** Modes where dragging on the page draws a region */
+    const isDrawMode = isFieldMode || isTableMode;
 
     // ── Helpers ────────────────────────────────────────────────────────────────
 
@@ -86,10 +130,26 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
         setLabelPopup(null);
     }, [isFieldMode]);
 
+    /** Click on a line / paragraph / block: select all its words at once */
+    const handleRegionClick = useCallback((e: React.MouseEvent, region: OCRTextRegion) => {
+        if (!isFieldMode) return;
+        e.stopPropagation();
+        setSelectedIds((prev) => {
+            const allSelected = region.wordIds.every((id) => prev.has(id));
+            const next = new Set(e.shiftKey ? prev : []);
+            for (const id of region.wordIds) {
+                if (allSelected) next.delete(id);
+                else next.add(id);
+            }
+            return next;
+        });
+        setLabelPopup(null);
+    }, [isFieldMode]);
+
     // ── Drag-to-draw rect ─────────────────────────────────────────────────────
 
     const handleMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-        if (!isFieldMode) return;
+        if (!isDrawMode) return;
         // Only on the overlay background itself (not child elements)
         if (e.target !== e.currentTarget) return;
         e.preventDefault();
@@ -98,14 +158,44 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
         setSelectedIds(new Set());
         setLabelPopup(null);
         setPendingRect(null);
-    }, [isFieldMode, toNorm]);
+    }, [isDrawMode, toNorm]);
 
     const handleMouseMove = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+        if (separatorDrag) {
+            const { table, index } = separatorDrag;
+            const min = (table.columns[index - 1] ?? table.bbox.x0) + MIN_COLUMN_WIDTH;
+            const max = (table.columns[index + 1] ?? table.bbox.x1) - MIN_COLUMN_WIDTH;
+            const x = Math.max(min, Math.min(max, toNorm(e).x));
+            setSeparatorDrag((prev) => prev ? { ...prev, x } : null);
+            return;
+        }
+        if (moveState) {
+            setMoveState((prev) => prev ? { ...prev, current: toNorm(e) } : null);
+            return;
+        }
         if (!dragState) return;
         setDragState((prev) => prev ? { ...prev, current: toNorm(e) } : null);
-    }, [dragState, toNorm]);
+    }, [dragState, moveState, separatorDrag, toNorm]);
 
     const handleMouseUp = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+        if (separatorDrag) {
+            const { table, index, x } = separatorDrag;
+            setSeparatorDrag(null);
+            if (x !== table.columns[index]) {
+                const columns = table.columns.map((c, i) => (i === index ? x : c));
+                updateAnnotation({ ...table, columns, cells: readTableCells(words, table.bbox, { rows: table.rows, columns }) });
+            }
+            return;
+        }
+        if (moveState) {
+            const moved = movedBBox(moveState.field.bbox, moveState.start, toNorm(e));
+            setMoveState(null);
+            if (moved === moveState.field.bbox) return;
+            // Re-capture whatever text now sits under the field
+            const { text, wordIds } = captureTextInBox(words, moved);
+            moveField(moveState.field.id, pageNumber, moved, text, wordIds);
+            return;
+        }
         if (!dragState) return;
         const end = toNorm(e);
         const bbox: OCRBBox = {
@@ -123,6 +213,21 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
             return;
         }
 
+        if (isTableMode) {
+            const grid = inferTableGrid(words, bbox);
+            addAnnotation({
+                id: crypto.randomUUID(),
+                type: 'table',
+                pageNumber,
+                color,
+                createdAt: Date.now(),
+                bbox,
+                ...grid,
+                cells: readTableCells(words, bbox, grid),
+            });
+            return;
+        }
+
         // ── Capture characters that fall inside the drawn rect ───────────────
         const { text: capturedText, wordIds: capturedIds } = captureTextInBox(words, bbox);
         pendingWordsRef.current = words.filter((w) => capturedIds.includes(w.id));
@@ -136,7 +241,40 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
             x: e.clientX - (overlayRect?.left ?? 0),
             y: e.clientY - (overlayRect?.top ?? 0),
         });
-    }, [dragState, toNorm, words]);
+    }, [
+        dragState, moveState, separatorDrag, isTableMode, toNorm, words, moveField, addAnnotation, updateAnnotation,
+        pageNumber, color,
+    ]);
+
+    // ── Table column separators ───────────────────────────────────────────────
+
+    const handleSeparatorMouseDown = useCallback((e: React.MouseEvent, table: TableAnnotation, index: number) => {
+        if (!isTableMode) return;
+        e.stopPropagation();
+        e.preventDefault();
+        setSeparatorDrag({ table, index, x: table.columns[index] });
+    }, [isTableMode]);
+
+    /** Double-click inside a table adds a column separator there; on a separator removes it */
+    const handleTableDoubleClick = useCallback((e: React.MouseEvent, table: TableAnnotation, removeIndex?: number) => {
+        if (!isTableMode) return;
+        e.stopPropagation();
+        const columns = removeIndex !== undefined
+            ? table.columns.filter((_, i) => i !== removeIndex)
+            : [...table.columns, toNorm(e).x].sort((a, b) => a - b);
+        updateAnnotation({ ...table, columns, cells: readTableCells(words, table.bbox, { rows: table.rows, columns }) });
+    }, [isTableMode, toNorm, words, updateAnnotation]);
+
+    // ── Drag a saved field to move it ─────────────────────────────────────────
+
+    const handleFieldMouseDown = useCallback((e: React.MouseEvent, field: FieldAnnotation) => {
+        if (!isFieldMode) return;
+        e.stopPropagation();
+        e.preventDefault();
+        const pt = toNorm(e);
+        setMoveState({ field, start: pt, current: pt });
+        setLabelPopup(null);
+    }, [isFieldMode, toNorm]);
 
     // ── Label popup: "Annotate" button (word selection flow) ──────────────────
 
@@ -187,6 +325,9 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
     const selectedWords = words.filter((w) => selectedIds.has(w.id));
     const hasWordSelection = selectedWords.length > 0 && !pendingRect;
 
+    const showRegions = granularity !== 'word' && regions.length > 0;
+    const wordById = new Map(words.map((w) => [w.id, w]));
+
     // Drag preview computed values
     let previewStyle: React.CSSProperties | null = null;
     if (dragState) {
@@ -206,14 +347,14 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
         <div
             ref={overlayRef}
             className="bounding-box-overlay"
-            data-field-mode={isFieldMode ? 'true' : undefined}
-            style={isFieldMode ? { cursor: dragState ? 'crosshair' : 'crosshair', pointerEvents: 'all' } : undefined}
+            data-field-mode={isDrawMode ? 'true' : undefined}
+            style={isDrawMode ? { cursor: separatorDrag ? 'col-resize' : 'crosshair', pointerEvents: 'all' } : undefined}
             onMouseDown={handleMouseDown}
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
         >
             {/* ── OCR word boxes ────────────────────────────────────────────── */}
-            {words.map((word) => {
+            {!showRegions && words.map((word) => {
                 const isSelected = selectedIds.has(word.id);
                 const fieldForWord = wordFieldMap[word.id];
                 return (
@@ -235,40 +376,172 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
                                     : confidenceBorder(word.confidence),
                             cursor: isFieldMode ? 'pointer' : 'default',
                             zIndex: isSelected ? 25 : fieldForWord ? 22 : 10,
-                            pointerEvents: 'all',
+                            // Table regions are drawn over text, so let drags start on words
+                            pointerEvents: isTableMode ? 'none' : 'all',
                         }}
                         onClick={(e) => handleWordClick(e, word)}
-                        onMouseEnter={(e) => !isFieldMode && setTooltip({ word, x: e.clientX, y: e.clientY })}
+                        onMouseEnter={(e) => !isFieldMode && setTooltip({ text: word.text, confidence: word.confidence, x: e.clientX, y: e.clientY })}
+                        onMouseLeave={() => setTooltip(null)}
+                    />
+                );
+            })}
+
+            {/* ── Line / paragraph / block boxes ───────────────────────────── */}
+            {showRegions && regions.map((region) => {
+                const regionWords = region.wordIds.map((id) => wordById.get(id)).filter((w): w is OCRWord => !!w);
+                if (regionWords.length === 0) return null;
+                const isSelected = regionWords.every((w) => selectedIds.has(w.id));
+                const fieldForRegion = regionWords.map((w) => wordFieldMap[w.id]).find(Boolean);
+                const confidence = regionWords.reduce((sum, w) => sum + w.confidence, 0) / regionWords.length;
+                const text = regionWords.map((w) => w.text).join(' ');
+                return (
+                    <div
+                        key={region.id}
+                        className={`bbox-word bbox-region${isSelected ? ' bbox-selected' : ''}${fieldForRegion ? ' bbox-labeled' : ''}`}
+                        style={{
+                            left: `${region.bbox.x0 * 100}%`,
+                            top: `${region.bbox.y0 * 100}%`,
+                            width: `${(region.bbox.x1 - region.bbox.x0) * 100}%`,
+                            height: `${(region.bbox.y1 - region.bbox.y0) * 100}%`,
+                            backgroundColor: isSelected
+                                ? 'rgba(108,99,255,.3)'
+                                : fieldForRegion ? fieldForRegion.color + '22'
+                                    : confidenceColor(confidence),
+                            borderColor: isSelected
+                                ? '#6c63ff'
+                                : fieldForRegion ? fieldForRegion.color
+                                    : confidenceBorder(confidence),
+                            cursor: isFieldMode ? 'pointer' : 'default',
+                            zIndex: isSelected ? 25 : fieldForRegion ? 22 : 10,
+                            pointerEvents: isTableMode ? 'none' : 'all',
+                        }}
+                        onClick={(e) => handleRegionClick(e, region)}
+                        onMouseEnter={(e) => !isFieldMode && setTooltip({ text, confidence, x: e.clientX, y: e.clientY })}
                         onMouseLeave={() => setTooltip(null)}
                     />
                 );
             })}
 
             {/* ── Saved field bounding boxes ───────────────────────────────── */}
-            {fieldAnnotations.map((fa) => (
+            {fieldAnnotations.map((fa) => {
+                const box = moveState?.field.id === fa.id
+                    ? movedBBox(fa.bbox, moveState.start, moveState.current)
+                    : fa.bbox;
+                const { error } = checkField(fa);
+                return (
+                    <div
+                        key={fa.id}
+                        className={`field-label-box${moveState?.field.id === fa.id ? ' field-moving' : ''}${error ? ' field-invalid' : ''}${fa.anchorMissing ? ' field-anchor-missing' : ''}`}
+                        style={{
+                            left: `${box.x0 * 100}%`,
+                            top: `${box.y0 * 100}%`,
+                            width: `${(box.x1 - box.x0) * 100}%`,
+                            height: `${(box.y1 - box.y0) * 100}%`,
+                            borderColor: fa.color,
+                            cursor: isFieldMode ? 'move' : undefined,
+                        }}
+                        title={fa.anchorMissing ? `Anchor "${fa.anchor?.text}" not found on this page` : error ?? undefined}
+                        onClick={(e) => e.stopPropagation()}
+                        onMouseDown={(e) => handleFieldMouseDown(e, fa)}
+                    >
+                        <span className="field-label-tag" style={{ background: fa.color }}>
+                            {error && <span className="field-error-mark">!</span>}
+                            {fa.anchorMissing && <span className="field-error-mark field-anchor-mark">⚓?</span>}
+                            {fa.label}
+                        </span>
+                        {isFieldMode && (
+                            <button
+                                className="field-delete-btn"
+                                onClick={(e) => { e.stopPropagation(); removeField(fa.id, pageNumber); }}
+                                onMouseDown={(e) => e.stopPropagation()}
+                                title="Remove field"
+                            >×</button>
+                        )}
+                    </div>
+                );
+            })}
+
+            {/* ── Search hits ──────────────────────────────────────────────── */}
+            {searchHits.flatMap((hit) => hit.words.map((w) => (
                 <div
-                    key={fa.id}
-                    className="field-label-box"
+                    key={`${hit.id}-${w.id}`}
+                    className={`search-hit${hit.id === activeSearchHitId ? ' search-hit-active' : ''}`}
                     style={{
-                        left: `${fa.bbox.x0 * 100}%`,
-                        top: `${fa.bbox.y0 * 100}%`,
-                        width: `${(fa.bbox.x1 - fa.bbox.x0) * 100}%`,
-                        height: `${(fa.bbox.y1 - fa.bbox.y0) * 100}%`,
-                        borderColor: fa.color,
+                        left: `${w.bbox.x0 * 100}%`,
+                        top: `${w.bbox.y0 * 100}%`,
+                        width: `${(w.bbox.x1 - w.bbox.x0) * 100}%`,
+                        height: `${(w.bbox.y1 - w.bbox.y0) * 100}%`,
+                    }}
+                />
+            )))}
+
+            {/* ── Suggested fields ─────────────────────────────────────────── */}
+            {suggestions.map((sf) => (
+                <div
+                    key={sf.id}
+                    className="field-label-box field-suggestion"
+                    style={{
+                        left: `${sf.bbox.x0 * 100}%`,
+                        top: `${sf.bbox.y0 * 100}%`,
+                        width: `${(sf.bbox.x1 - sf.bbox.x0) * 100}%`,
+                        height: `${(sf.bbox.y1 - sf.bbox.y0) * 100}%`,
+                        borderColor: sf.color,
                     }}
-                    onClick={(e) => e.stopPropagation()}
                 >
-                    <span className="field-label-tag" style={{ background: fa.color }}>{fa.label}</span>
-                    {isFieldMode && (
-                        <button
-                            className="field-delete-btn"
-                            onClick={(e) => { e.stopPropagation(); removeField(fa.id, pageNumber); }}
-                            title="Remove field"
-                        >×</button>
-                    )}
+                    <span className="field-label-tag" style={{ background: sf.color }}>{sf.label}?</span>
                 </div>
             ))}
 
+            {/* ── Tables with their row / column grid ─────────────────────── */}
+            {tables.map((table) => {
+                const columns = separatorDrag?.table.id === table.id
+                    ? table.columns.map((c, i) => (i === separatorDrag.index ? separatorDrag.x : c))
+                    : table.columns;
+                const { x0, y0, x1, y1 } = table.bbox;
+                const toLeft = (x: number) => `${((x - x0) / (x1 - x0)) * 100}%`;
+                const toTop = (y: number) => `${((y - y0) / (y1 - y0)) * 100}%`;
+                return (
+                    <div
+                        key={table.id}
+                        className="table-region"
+                        style={{
+                            left: `${x0 * 100}%`,
+                            top: `${y0 * 100}%`,
+                            width: `${(x1 - x0) * 100}%`,
+                            height: `${(y1 - y0) * 100}%`,
+                            borderColor: table.color,
+                            pointerEvents: isTableMode ? 'all' : 'none',
+                        }}
+                        onDoubleClick={(e) => handleTableDoubleClick(e, table)}
+                        title={isTableMode ? 'Drag a column separator to move it · double-click to add or remove one' : undefined}
+                    >
+                        <span className="field-label-tag" style={{ background: table.color }}>
+                            Table {table.rows.length + 1}×{table.columns.length + 1}
+                        </span>
+                        {table.rows.map((y, i) => (
+                            <div key={`r${i}`} className="table-row-separator" style={{ top: toTop(y), borderColor: table.color }} />
+                        ))}
+                        {columns.map((x, i) => (
+                            <div
+                                key={`c${i}`}
+                                className="table-column-separator"
+                                style={{ left: toLeft(x), color: table.color }}
+                                onMouseDown={(e) => handleSeparatorMouseDown(e, table, i)}
+                                onDoubleClick={(e) => handleTableDoubleClick(e, table, i)}
+                            />
+                        ))}
+                        {isTableMode && (
+                            <button
+                                className="field-delete-btn"
+                                onClick={(e) => { e.stopPropagation(); removeAnnotation(table.id, pageNumber); }}
+                                onMouseDown={(e) => e.stopPropagation()}
+                                title="Remove table"
+                            >×</button>
+                        )}
+                    </div>
+                );
+            })}
+
             {/* ── Drag-to-draw preview ─────────────────────────────────────── */}
             {previewStyle && (
                 <div className="field-draw-preview" style={previewStyle} />
@@ -323,9 +596,9 @@ const BoundingBoxOverlay: React.FC<BoundingBoxOverlayProps> = ({
             {/* ── Hover tooltip (non-field mode) ───────────────────────────── */}
             {tooltip && !isFieldMode && (
                 <div className="bbox-tooltip" style={{ left: tooltip.x + 12, top: tooltip.y + 12, position: 'fixed' }}>
-                    <span className="tooltip-text">"{tooltip.word.text}"</span>
-                    <span className="tooltip-confidence" style={{ color: confidenceBorder(tooltip.word.confidence) }}>
-                        {Math.round(tooltip.word.confidence)}% confidence
+                    <span className="tooltip-text">"{tooltip.text}"</span>
+                    <span className="tooltip-confidence" style={{ color: confidenceBorder(tooltip.confidence) }}>
+                        {Math.round(tooltip.confidence)}% confidence
                     </span>
                 </div>
             )}
@@ -1,8 +1,44 @@
 import React, { useEffect, useRef, useCallback } from 'react';
 import { fabric } from 'fabric';
-import type { AnnotationMode, PageDimensions, FreehandAnnotation, RectAnnotation } from '../types';
+import type { Annotation, AnnotationMode, PageDimensions, FreehandAnnotation, RectAnnotation } from '../types';
 import { useAnnotationStore } from '../services/annotationStore';
 
+/** Shared empty list — keeps the store selector from returning a new array on every render */
+const NO_ANNOTATIONS: Annotation[] = [];
+
+/** Fabric object showing a stored rectangle or freehand annotation at `scale` */
+function toFabricObject(annotation: Annotation, scale: number): fabric.Object | null {
+    if (annotation.type === 'rectangle') {
+        const { x0, y0, x1, y1 } = annotation.bbox;
+        return new fabric.Rect({
+            left: x0 * scale,
+            top: y0 * scale,
+            width: (x1 - x0) * scale,
+            height: (y1 - y0) * scale,
+            fill: 'transparent',
+            stroke: annotation.color,
+            strokeWidth: 2,
+            selectable: false,
+            evented: false,
+        });
+    }
+    if (annotation.type === 'freehand') {
+        const obj = JSON.parse(annotation.fabricJson) as { path?: (string | number)[][]; strokeWidth?: number };
+        if (!obj.path?.length) return null;
+        // Path points are canvas px at the zoom the path was drawn at
+        const factor = scale / (annotation.scale ?? 1);
+        const path = obj.path.map(([cmd, ...args]) => [cmd, ...args.map((n) => Number(n) * factor)]);
+        return new fabric.Path(path as unknown as fabric.Point[], {
+            fill: '',
+            stroke: annotation.color,
+            strokeWidth: (obj.strokeWidth ?? 2) * factor,
+            selectable: false,
+            evented: false,
+        });
+    }
+    return null;
+}
+
 interface DrawingLayerProps {
     pageNumber: number;
     mode: AnnotationMode;
@@ -21,6 +57,7 @@ const DrawingLayer: React.FC<DrawingLayerProps> = ({
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const fabricRef = useRef<fabric.Canvas | null>(null);
     const addAnnotation = useAnnotationStore((s) => s.addAnnotation);
+    const pageAnnotations = useAnnotationStore((s) => s.annotations.get(pageNumber) ?? NO_ANNOTATIONS);
 
     const width = dimensions.width * scale;
     const height = dimensions.height * scale;
@@ -52,6 +89,19 @@ const DrawingLayer: React.FC<DrawingLayerProps> = ({
         fc.renderAll();
     }, [width, height]);
 
+    // Draw the page's rectangles and paths from the store, so undo / redo,
+    // Clear page, restored sessions and imported markup all show up
+    useEffect(() => {
+        const fc = fabricRef.current;
+        if (!fc) return;
+        fc.remove(...fc.getObjects());
+        for (const annotation of pageAnnotations) {
+            const obj = toFabricObject(annotation, scale);
+            if (obj) fc.add(obj);
+        }
+        fc.renderAll();
+    }, [pageAnnotations, scale]);
+
     // Set drawing mode based on annotation mode
     useEffect(() => {
         const fc = fabricRef.current;
@@ -147,10 +197,11 @@ const DrawingLayer: React.FC<DrawingLayerProps> = ({
                 color,
                 createdAt: Date.now(),
                 fabricJson: JSON.stringify(opt.path.toObject()),
+                scale,
             };
             addAnnotation(annotation);
         },
-        [pageNumber, color, addAnnotation]
+        [pageNumber, color, scale, addAnnotation]
     );
 
     // Bind / unbind Fabric events
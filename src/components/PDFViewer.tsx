@@ -3,18 +3,26 @@ import { Document, Page, pdfjs } from 'react-pdf';
 import 'react-pdf/dist/Page/AnnotationLayer.css';
 import 'react-pdf/dist/Page/TextLayer.css';
 import type { PageDimensions } from '../types';
+import { PDFJS_CMAP_URL, PDFJS_STANDARD_FONT_URL, PDFJS_WORKER_URL } from '../config';
 
-// Configure PDF.js worker — must resolve from the same pdfjs-dist version
-// that react-pdf bundles (4.8.69). Using a direct CDN URL avoids any
-// local package resolution issues across build tools.
-pdfjs.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+// Configure PDF.js worker — served from our own origin (see vite.config.ts),
+// copied from the same pdfjs-dist version that react-pdf bundles (4.8.69).
+pdfjs.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+
+/** Self-hosted CMaps and standard fonts — module-level so react-pdf doesn't reload */
+const DOCUMENT_OPTIONS = {
+    cMapUrl: PDFJS_CMAP_URL,
+    cMapPacked: true,
+    standardFontDataUrl: PDFJS_STANDARD_FONT_URL,
+};
 
 interface PDFViewerProps {
     file: File | string | null;
     currentPage: number;
     numPages: number;
     scale: number;
-    onDocumentLoadSuccess: (numPages: number) => void;
+    /** Called with the page count and the raw pdf.js document proxy — used for off-screen rendering */
+    onDocumentLoadSuccess: (numPages: number, proxy: unknown) => void;
     onPageLoadSuccess: (dimensions: PageDimensions) => void;
     /** Called with the raw pdf.js page proxy — used for embedded text extraction */
     onPageProxy: (proxy: unknown, pageNumber: number) => void;
@@ -34,8 +42,8 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
     const pageWrapperRef = useRef<HTMLDivElement>(null);
 
     const handleDocumentLoad = useCallback(
-        ({ numPages }: { numPages: number }) => {
-            onDocumentLoadSuccess(numPages);
+        (pdf: { numPages: number }) => {
+            onDocumentLoadSuccess(pdf.numPages, pdf);
         },
         [onDocumentLoadSuccess]
     );
@@ -82,6 +90,7 @@ const PDFViewer: React.FC<PDFViewerProps> = ({
         <div className="pdf-viewer" ref={pageWrapperRef}>
             <Document
                 file={file}
+                options={DOCUMENT_OPTIONS}
                 onLoadSuccess={handleDocumentLoad}
                 loading={<div className="pdf-loading">Loading PDF…</div>}
                 error={<div className="pdf-error">Failed to load PDF.</div>}
@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { SessionSummary } from '../types';
+import { deleteSession, listSessions } from '../services/sessionDB';
+
+interface RecentPanelProps {
+    /** Hash of the open document — it cannot be purged while open */
+    documentHash: string | null;
+    onResume: (hash: string) => void;
+}
+
+/**
+ * Sidebar panel listing sessions autosaved to IndexedDB, with resume / purge.
+ */
+const RecentPanel: React.FC<RecentPanelProps> = ({ documentHash, onResume }) => {
+    const [sessions, setSessions] = useState<SessionSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    const refresh = useCallback(async () => {
+        try {
+            setSessions(await listSessions());
+        } catch (err) {
+            console.warn('[Session] Listing failed:', err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh, documentHash]);
+
+    const purge = async (hash: string) => {
+        try {
+            await deleteSession(hash);
+        } catch (err) {
+            console.warn('[Session] Delete failed:', err);
+        }
+        refresh();
+    };
+
+    const purgeAll = async () => {
+        try {
+            await Promise.all(sessions.filter((s) => s.hash !== documentHash).map((s) => deleteSession(s.hash)));
+        } catch (err) {
+            console.warn('[Session] Delete failed:', err);
+        }
+        refresh();
+    };
+
+    if (isLoading) {
+        return (
+            <div className="ocr-running">
+                <span className="spinner" />
+                Loading saved sessions…
+            </div>
+        );
+    }
+
+    if (sessions.length === 0) {
+        return (
+            <div className="empty-panel">
+                <p>No saved sessions.</p>
+                <p>Work is saved automatically while a PDF is open.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="recent-panel">
+            <div className="panel-header">
+                <p className="panel-meta">{sessions.length} saved document{sessions.length !== 1 ? 's' : ''}</p>
+                <button
+                    className="btn-template-apply"
+                    onClick={purgeAll}
+                    disabled={sessions.every((s) => s.hash === documentHash)}
+                    title="Delete every saved session except the open document"
+                >
+                    Purge all
+                </button>
+            </div>
+            <ul className="field-list">
+                {sessions.map((session) => {
+                    const isOpen = session.hash === documentHash;
+                    return (
+                        <li key={session.hash} className={`field-item${isOpen ? ' template-active' : ''}`}>
+                            <div className="field-item-header">
+                                <span className="field-label recent-name" title={session.fileName}>
+                                    {session.fileName}
+                                </span>
+                                <button
+                                    className="btn-template-apply"
+                                    onClick={() => onResume(session.hash)}
+                                    disabled={isOpen}
+                                >
+                                    {isOpen ? 'Open' : 'Resume'}
+                                </button>
+                                <button
+                                    className="btn-remove-field"
+                                    onClick={() => purge(session.hash)}
+                                    disabled={isOpen}
+                                    title={isOpen ? 'Currently open' : 'Delete saved session'}
+                                >
+                                    ×
+                                </button>
+                            </div>
+                            <p className="field-value">
+                                {new Date(session.updatedAt).toLocaleString()} · {session.ocrPageCount} page
+                                {session.ocrPageCount !== 1 ? 's' : ''} with text · {session.fieldCount} field
+                                {session.fieldCount !== 1 ? 's' : ''} · {session.annotationCount} markup
+                            </p>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default RecentPanel;
@@ -0,0 +1,249 @@
+import React, { useRef, useState } from 'react';
+import type { ExtractionRule, OCRResult, RuleValueType } from '../types';
+import { useRuleStore, serializeRules, parseRules, RULES_FILE_NAME } from '../services/ruleStore';
+import { runRules, validateRule } from '../services/ruleEngine';
+import { downloadFile } from '../utils/download';
+
+interface RulesPanelProps {
+    ocrResults: Map<number, OCRResult>;
+}
+
+const VALUE_TYPE_LABELS: Record<RuleValueType, string> = {
+    text: 'Text',
+    number: 'Number',
+    currency: 'Currency amount',
+    date: 'Date',
+    email: 'E-mail',
+    phone: 'Phone',
+    iban: 'IBAN',
+};
+
+const emptyRule = (): ExtractionRule => ({
+    id: crypto.randomUUID(),
+    kind: 'anchor',
+    label: '',
+    pageNumber: null,
+    anchor: '',
+    direction: 'right',
+    valueType: 'text',
+});
+
+/** One-line description of a rule for the list */
+function describeRule(rule: ExtractionRule): string {
+    const where = rule.pageNumber === null ? 'any page' : `page ${rule.pageNumber}`;
+    if (rule.kind === 'regex') return `/${rule.pattern}/${rule.ignoreCase ? 'i' : ''} on ${where}`;
+    const type = VALUE_TYPE_LABELS[rule.valueType].toLowerCase();
+    return `first ${type} ${rule.direction === 'right' ? 'right of' : 'below'} "${rule.anchor}" on ${where}`;
+}
+
+/**
+ * Sidebar panel for extraction rules: write regex or anchor rules, run them
+ * over every OCR'd page to create fields, and move rule sets between
+ * installations as JSON.
+ */
+const RulesPanel: React.FC<RulesPanelProps> = ({ ocrResults }) => {
+    const rules = useRuleStore((s) => s.rules);
+    const saveRule = useRuleStore((s) => s.saveRule);
+    const deleteRule = useRuleStore((s) => s.deleteRule);
+    const importRules = useRuleStore((s) => s.importRules);
+
+    const [draft, setDraft] = useState<ExtractionRule>(emptyRule);
+    const [isEditing, setIsEditing] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const error = draft.label || (draft.kind === 'regex' ? draft.pattern : draft.anchor) ? validateRule(draft) : null;
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (validateRule(draft)) return;
+        saveRule({ ...draft, label: draft.label.trim() });
+        setDraft(emptyRule());
+        setIsEditing(false);
+    };
+
+    const changeKind = (kind: ExtractionRule['kind']) => {
+        const base = { id: draft.id, label: draft.label, pageNumber: draft.pageNumber };
+        setDraft(kind === 'regex'
+            ? { ...base, kind, pattern: '', ignoreCase: true }
+            : { ...base, kind, anchor: '', direction: 'right', valueType: 'text' });
+    };
+
+    const handleRun = () => {
+        const created = runRules(rules, ocrResults);
+        setMessage(created > 0
+            ? `Created ${created} field${created !== 1 ? 's' : ''}`
+            : 'No new matches on the OCR\'d pages');
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseRules(await file.text());
+            importRules(imported);
+            setMessage(`Imported ${imported.length} rule${imported.length !== 1 ? 's' : ''}`);
+        } catch (err) {
+            setMessage((err as Error).message);
+        }
+    };
+
+    return (
+        <div className="rules-panel">
+            <form className="rule-form" onSubmit={handleSave}>
+                <input
+                    className="popup-input"
+                    type="text"
+                    placeholder="Field label, e.g. Total"
+                    value={draft.label}
+                    onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                />
+                <div className="rule-form-row">
+                    <select
+                        className="toolbar-select"
+                        value={draft.kind}
+                        onChange={(e) => changeKind(e.target.value as ExtractionRule['kind'])}
+                    >
+                        <option value="anchor">Next to words</option>
+                        <option value="regex">Regex</option>
+                    </select>
+                    <input
+                        className="popup-input rule-page-input"
+                        type="number"
+                        min={1}
+                        placeholder="Any page"
+                        value={draft.pageNumber ?? ''}
+                        onChange={(e) => setDraft({ ...draft, pageNumber: parseInt(e.target.value, 10) || null })}
+                        title="Only look on this page (empty: every page)"
+                    />
+                </div>
+                {draft.kind === 'regex' ? (
+                    <div className="rule-form-row">
+                        <input
+                            className="popup-input"
+                            type="text"
+                            placeholder="Pattern, e.g. IBAN:?\s*([A-Z]{2}\d{2}[\dA-Z ]+)"
+                            value={draft.pattern}
+                            onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                        />
+                        <label className="rule-checkbox" title="Ignore upper / lower case">
+                            <input
+                                type="checkbox"
+                                checked={draft.ignoreCase}
+                                onChange={(e) => setDraft({ ...draft, ignoreCase: e.target.checked })}
+                            />
+                            Aa
+                        </label>
+                    </div>
+                ) : (
+                    <>
+                        <input
+                            className="popup-input"
+                            type="text"
+                            placeholder="Anchor words, e.g. Total"
+                            value={draft.anchor}
+                            onChange={(e) => setDraft({ ...draft, anchor: e.target.value })}
+                        />
+                        <div className="rule-form-row">
+                            <select
+                                className="toolbar-select"
+                                value={draft.valueType}
+                                onChange={(e) => setDraft({ ...draft, valueType: e.target.value as RuleValueType })}
+                            >
+                                {Object.entries(VALUE_TYPE_LABELS).map(([type, label]) => (
+                                    <option key={type} value={type}>{label}</option>
+                                ))}
+                            </select>
+                            <select
+                                className="toolbar-select"
+                                value={draft.direction}
+                                onChange={(e) => setDraft({ ...draft, direction: e.target.value as 'right' | 'below' })}
+                            >
+                                <option value="right">to the right</option>
+                                <option value="below">below</option>
+                            </select>
+                        </div>
+                    </>
+                )}
+                {error && <p className="panel-warning">{error}</p>}
+                <div className="rule-form-row">
+                    <button type="submit" className="btn-save-field" disabled={!!validateRule(draft)}>
+                        {isEditing ? 'Update rule' : 'Add rule'}
+                    </button>
+                    {isEditing && (
+                        <button
+                            type="button"
+                            className="btn-cancel-field"
+                            onClick={() => { setDraft(emptyRule()); setIsEditing(false); }}
+                        >
+                            Cancel
+                        </button>
+                    )}
+                </div>
+            </form>
+
+            <div className="rules-actions">
+                <button
+                    className="btn-template-apply"
+                    onClick={handleRun}
+                    disabled={rules.length === 0 || ocrResults.size === 0}
+                    title="Create a field for every rule match on the OCR'd pages"
+                >
+                    ▶ Run on document
+                </button>
+                <button
+                    className="btn-template-apply"
+                    onClick={() => downloadFile(serializeRules(rules), RULES_FILE_NAME, 'application/json')}
+                    disabled={rules.length === 0}
+                >
+                    ⬇ Export
+                </button>
+                <button className="btn-template-apply" onClick={() => importInputRef.current?.click()}>
+                    Import
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    style={{ display: 'none' }}
+                    onChange={handleImport}
+                />
+            </div>
+            {message && <p className="panel-meta">{message}</p>}
+
+            {rules.length > 0 ? (
+                <ul className="field-list">
+                    {rules.map((rule) => (
+                        <li key={rule.id} className={`field-item${draft.id === rule.id ? ' template-active' : ''}`}>
+                            <div className="field-item-header">
+                                <span
+                                    className="field-label"
+                                    onClick={() => { setDraft(rule); setIsEditing(true); }}
+                                    title="Click to edit"
+                                >
+                                    {rule.label}
+                                </span>
+                                <button
+                                    className="btn-remove-field"
+                                    onClick={() => deleteRule(rule.id)}
+                                    title="Delete rule"
+                                >
+                                    ×
+                                </button>
+                            </div>
+                            <p className="field-value">{describeRule(rule)}</p>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <div className="empty-panel">
+                    <p>No rules yet.</p>
+                    <p>Add a rule such as <strong>Total</strong> = first currency amount right of "Total".</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RulesPanel;
@@ -0,0 +1,141 @@
+import React from 'react';
+import { MAX_SEARCH_HITS, type SearchHit, type SearchMode } from '../utils/textSearch';
+import { useFieldStore } from '../services/fieldStore';
+
+export interface SearchPanelProps {
+    query: string;
+    mode: SearchMode;
+    onQueryChange: (query: string) => void;
+    onModeChange: (mode: SearchMode) => void;
+    hits: SearchHit[];
+    /** Why the query could not run (invalid regex), if it could not */
+    error: string | null;
+    /** Index into `hits` of the selected hit, or -1 */
+    activeIndex: number;
+    /** Select a hit, jumping to its page */
+    onSelectHit: (index: number) => void;
+}
+
+/** Hit text on one line */
+const matchText = (hit: SearchHit) => hit.text.replace(/\s+/g, ' ');
+
+/**
+ * Sidebar panel for document-wide search: a query box with phrase / regex
+ * modes, previous / next navigation and the hits grouped by page, each of
+ * which can be turned into a field.
+ */
+const SearchPanel: React.FC<SearchPanelProps> = ({
+    query, mode, onQueryChange, onModeChange, hits, error, activeIndex, onSelectHit,
+}) => {
+    const allFields = useFieldStore((s) => s.fields);
+    const addField = useFieldStore((s) => s.addField);
+
+    const step = (delta: number) => {
+        if (hits.length === 0) return;
+        const from = activeIndex < 0 && delta < 0 ? 0 : activeIndex;
+        onSelectHit((from + delta + hits.length) % hits.length);
+    };
+
+    /** Whether every word of the hit already belongs to a field */
+    const isLabeled = (hit: SearchHit) => {
+        const labeled = new Set((allFields.get(hit.pageNumber) ?? []).flatMap((f) => f.wordIds));
+        return hit.words.every((w) => labeled.has(w.id));
+    };
+
+    const pages = Array.from(new Set(hits.map((h) => h.pageNumber)));
+
+    return (
+        <div className="search-panel">
+            <div className="search-form">
+                <input
+                    className="popup-input"
+                    type="search"
+                    placeholder={mode === 'regex' ? 'Regular expression, e.g. INV-\\d+' : 'Find in document'}
+                    value={query}
+                    onChange={(e) => onQueryChange(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') step(e.shiftKey ? -1 : 1);
+                    }}
+                    autoFocus
+                />
+                <div className="search-controls">
+                    <button
+                        className={`btn-template-apply${mode === 'phrase' ? ' active' : ''}`}
+                        onClick={() => onModeChange('phrase')}
+                        title="Match words in order, ignoring case and accents"
+                    >
+                        Phrase
+                    </button>
+                    <button
+                        className={`btn-template-apply${mode === 'regex' ? ' active' : ''}`}
+                        onClick={() => onModeChange('regex')}
+                        title="Regular expression, ignoring case and accents"
+                    >
+                        .* Regex
+                    </button>
+                    <span className="search-count">
+                        {hits.length > 0
+                            ? `${activeIndex >= 0 ? `${activeIndex + 1} / ` : ''}${hits.length}${hits.length >= MAX_SEARCH_HITS ? '+' : ''}`
+                            : query.trim() && !error ? 'No hits' : ''}
+                    </span>
+                    <button
+                        className="btn-template-apply"
+                        onClick={() => step(-1)}
+                        disabled={hits.length === 0}
+                        title="Previous hit (Shift+Enter)"
+                    >
+                        ‹
+                    </button>
+                    <button
+                        className="btn-template-apply"
+                        onClick={() => step(1)}
+                        disabled={hits.length === 0}
+                        title="Next hit (Enter)"
+                    >
+                        ›
+                    </button>
+                </div>
+                {error && <p className="field-error">{error}</p>}
+            </div>
+
+            {pages.map((pageNumber) => (
+                <div key={pageNumber}>
+                    <p className="panel-meta">Page {pageNumber}</p>
+                    <ul className="field-list">
+                        {hits.map((hit, index) => hit.pageNumber === pageNumber && (
+                            <li
+                                key={hit.id}
+                                className={`field-item search-hit-item${index === activeIndex ? ' template-active' : ''}`}
+                                onClick={() => onSelectHit(index)}
+                            >
+                                <span className="search-context">
+                                    {hit.before && '…'}{hit.before}<mark>{matchText(hit)}</mark>{hit.after}{hit.after && '…'}
+                                </span>
+                                <button
+                                    className="btn-template-apply"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        addField(hit.pageNumber, mode === 'phrase' ? query.trim() : matchText(hit), hit.words);
+                                    }}
+                                    disabled={isLabeled(hit)}
+                                    title="Create a field from this hit"
+                                >
+                                    + Field
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ))}
+
+            {!query.trim() && (
+                <div className="empty-panel">
+                    <p>Search every OCR'd page.</p>
+                    <p>Case and accents are ignored; <strong>Enter</strong> jumps to the next hit.</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SearchPanel;
@@ -1,30 +1,76 @@
 import React, { useState } from 'react';
-import type { OCRResult, Annotation, FieldAnnotation } from '../types';
+import type { OCRResult, Annotation, FieldAnnotation, FieldType, TableAnnotation } from '../types';
+import type { BatchOCRProgress } from '../services/batchOCR';
+import type { TableExportFormat } from '../services/tableExport';
 import { useAnnotationStore } from '../services/annotationStore';
 import { useFieldStore } from '../services/fieldStore';
+import { detectKeyValuePairs } from '../utils/keyValueDetection';
+import { findAnchor } from '../utils/fieldAnchors';
+import {
+    checkField, formatNormalized, DEFAULT_LOCALE, FIELD_LOCALES, FIELD_TYPE_LABELS, LOCALE_FIELD_TYPES,
+} from '../utils/fieldValues';
+import TemplatePanel from './TemplatePanel';
+import RulesPanel from './RulesPanel';
+import SearchPanel, { type SearchPanelProps } from './SearchPanel';
+import RecentPanel from './RecentPanel';
 
 interface SidebarProps {
     currentPage: number;
     ocrResult: OCRResult | null;
+    /** OCR results of every processed page, for document-wide rules */
+    ocrResults: Map<number, OCRResult>;
     isOCRRunning: boolean;
+    batchProgress: BatchOCRProgress | null;
+    /** Currently selected OCR language — pages OCR'd in another one are flagged */
+    ocrLanguage: string;
+    /** Content hash of the open document, if any */
+    documentHash: string | null;
+    onResumeSession: (hash: string) => void;
+    onExportTable: (table: TableAnnotation, format: TableExportFormat) => void;
+    /** Document search state, owned by the app so hits can be shown on the page */
+    search: SearchPanelProps;
 }
 
-type SidebarTab = 'ocr-text' | 'ocr-words' | 'annotations' | 'fields';
+/** Locales in the field type picker, the browser's first */
+const LOCALE_OPTIONS = FIELD_LOCALES.includes(DEFAULT_LOCALE) ? FIELD_LOCALES : [DEFAULT_LOCALE, ...FIELD_LOCALES];
 
-const Sidebar: React.FC<SidebarProps> = ({ currentPage, ocrResult, isOCRRunning }) => {
+/** Rows of a table shown in its preview */
+const TABLE_PREVIEW_ROWS = 4;
+
+type SidebarTab = 'search' | 'ocr-text' | 'ocr-words' | 'annotations' | 'fields' | 'templates' | 'rules' | 'recent';
+
+const Sidebar: React.FC<SidebarProps> = ({
+    currentPage, ocrResult, ocrResults, isOCRRunning, batchProgress, ocrLanguage, documentHash, onResumeSession, onExportTable, search,
+}) => {
     const [activeTab, setActiveTab] = useState<SidebarTab>('ocr-text');
 
     const allAnnotations = useAnnotationStore((s) => s.annotations);
     const removeAnnotation = useAnnotationStore((s) => s.removeAnnotation);
+    const clearPageAnnotations = useAnnotationStore((s) => s.clearPage);
     const getPageFields = useFieldStore((s) => s.getPageFields);
     const removeField = useFieldStore((s) => s.removeField);
     const updateLabel = useFieldStore((s) => s.updateLabel);
+    const setFieldType = useFieldStore((s) => s.setFieldType);
+    const setFieldAnchor = useFieldStore((s) => s.setFieldAnchor);
+    const relocateFields = useFieldStore((s) => s.relocateFields);
+    const clearPageFields = useFieldStore((s) => s.clearPage);
+    const allSuggestions = useFieldStore((s) => s.suggestions);
+    const setSuggestions = useFieldStore((s) => s.setSuggestions);
+    const acceptSuggestions = useFieldStore((s) => s.acceptSuggestions);
+    const rejectSuggestions = useFieldStore((s) => s.rejectSuggestions);
 
     const pageAnnotations: Annotation[] = allAnnotations.get(currentPage) ?? [];
     const pageFields: FieldAnnotation[] = getPageFields(currentPage);
+    const pageSuggestions: FieldAnnotation[] = allSuggestions.get(currentPage) ?? [];
+    /** Suggestions left out of the next accept / reject */
+    const [uncheckedIds, setUncheckedIds] = useState<Set<string>>(new Set());
+    const checkedIds = pageSuggestions.filter((f) => !uncheckedIds.has(f.id)).map((f) => f.id);
 
     const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
     const [editingLabel, setEditingLabel] = useState('');
+    const [anchoringFieldId, setAnchoringFieldId] = useState<string | null>(null);
+    const [anchorText, setAnchorText] = useState('');
+    const [anchorError, setAnchorError] = useState<string | null>(null);
 
     const confidenceLabel = (conf: number) => {
         if (conf >= 80) return 'high';
@@ -42,9 +88,62 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, ocrResult, isOCRRunning
         setEditingFieldId(null);
     };
 
+    /** Start picking an anchor, suggesting the field's label — forms usually print it next to the value */
+    const startAnchor = (field: FieldAnnotation) => {
+        setAnchoringFieldId(field.id);
+        setAnchorText(field.anchor?.text ?? field.label);
+        setAnchorError(null);
+    };
+
+    /** Anchor the field to the occurrence of the phrase nearest to it */
+    const saveAnchor = (field: FieldAnnotation) => {
+        const text = anchorText.trim();
+        if (!text || !ocrResult) return;
+        const bbox = findAnchor(text, ocrResult, field.bbox);
+        if (!bbox) {
+            setAnchorError(`"${text}" is not on this page`);
+            return;
+        }
+        setFieldAnchor(field.id, currentPage, { text, bbox });
+        setAnchoringFieldId(null);
+    };
+
+    const changeFieldType = (field: FieldAnnotation, type: FieldType) => {
+        const locale = LOCALE_FIELD_TYPES.includes(type) ? field.locale ?? DEFAULT_LOCALE : undefined;
+        setFieldType(field.id, currentPage, type, locale);
+    };
+
+    /** Suggest a field for every label → value pair whose words are not labeled yet */
+    const detectFields = () => {
+        if (!ocrResult) return;
+        const labeled = new Set(pageFields.flatMap((f) => f.wordIds));
+        const tables = (allAnnotations.get(currentPage) ?? []).flatMap((a) => (a.type === 'table' ? [a.bbox] : []));
+        const pairs = detectKeyValuePairs(ocrResult, tables)
+            .filter((p) => ![...p.labelWords, ...p.words].some((w) => labeled.has(w.id)));
+        setSuggestions(currentPage, pairs);
+        setUncheckedIds(new Set());
+    };
+
+    const toggleSuggestion = (id: string) => {
+        setUncheckedIds((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    };
+
     return (
         <aside className="sidebar">
             <div className="sidebar-tabs">
+                <button
+                    className={`tab-btn ${activeTab === 'search' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('search')}
+                    title="Search the document"
+                >
+                    🔍
+                    {search.hits.length > 0 && <span className="tab-badge">{search.hits.length}</span>}
+                </button>
                 <button
                     className={`tab-btn ${activeTab === 'ocr-text' ? 'active' : ''}`}
                     onClick={() => setActiveTab('ocr-text')}
@@ -72,12 +171,49 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, ocrResult, isOCRRunning
                     Markup
                     {pageAnnotations.length > 0 && <span className="tab-badge">{pageAnnotations.length}</span>}
                 </button>
+                <button
+                    className={`tab-btn ${activeTab === 'templates' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('templates')}
+                >
+                    Templates
+                </button>
+                <button
+                    className={`tab-btn ${activeTab === 'rules' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('rules')}
+                >
+                    Rules
+                </button>
+                <button
+                    className={`tab-btn ${activeTab === 'recent' ? 'active' : ''}`}
+                    onClick={() => setActiveTab('recent')}
+                >
+                    Recent
+                </button>
             </div>
 
             <div className="sidebar-content">
+                {/* ── Document search ── */}
+                {activeTab === 'search' && <SearchPanel {...search} />}
+
                 {/* ── OCR Full Text ── */}
                 {activeTab === 'ocr-text' && (
                     <div className="ocr-text-panel">
+                        {batchProgress && (
+                            <div className="batch-progress">
+                                <div className="ocr-running">
+                                    <span className="spinner" />
+                                    OCR page {batchProgress.pageNumber} ({batchProgress.index} of {batchProgress.total})…
+                                </div>
+                                <div className="progress-track">
+                                    <div
+                                        className="progress-fill"
+                                        style={{
+                                            width: `${((batchProgress.index - 1 + batchProgress.pageProgress) / batchProgress.total) * 100}%`,
+                                        }}
+                                    />
+                                </div>
+                            </div>
+                        )}
                         {isOCRRunning && (
                             <div className="ocr-running">
                                 <span className="spinner" />
@@ -88,7 +224,15 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, ocrResult, isOCRRunning
                             <>
                                 <p className="panel-meta">
                                     {ocrResult.words.length} words found on page {currentPage}
+                                    {ocrResult.dpi && ` · OCR at ${ocrResult.dpi} DPI`}
+                                    {ocrResult.language && ` · ${ocrResult.language}`}
                                 </p>
+                                {ocrResult.language && ocrResult.language !== ocrLanguage && (
+                                    <p className="panel-warning">
+                                        Recognized as <strong>{ocrResult.language}</strong>, not the selected{' '}
+                                        <strong>{ocrLanguage}</strong> — run OCR again to update this page.
+                                    </p>
+                                )}
                                 <pre className="ocr-text">{ocrResult.fullText || '(no text detected)'}</pre>
                             </>
                         ) : (
@@ -127,49 +271,193 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, ocrResult, isOCRRunning
                 {/* ── Fields Tab ── */}
                 {activeTab === 'fields' && (
                     <div className="fields-panel">
+                        <div className="panel-header">
+                            <p className="panel-meta">
+                                {pageSuggestions.length > 0
+                                    ? `${pageSuggestions.length} suggested field${pageSuggestions.length !== 1 ? 's' : ''}`
+                                    : 'Find "Label: value" pairs on this page'}
+                            </p>
+                            <button
+                                className="btn-template-apply"
+                                onClick={detectFields}
+                                disabled={!ocrResult}
+                                title="Detect label → value pairs (colons, bold or aligned labels) and suggest them as fields"
+                            >
+                                ✨ Detect
+                            </button>
+                        </div>
+                        {pageSuggestions.length > 0 && (
+                            <>
+                                <ul className="field-list suggestion-list">
+                                    {pageSuggestions.map((suggestion) => (
+                                        <li key={suggestion.id} className="field-item field-suggestion-item">
+                                            <label className="field-item-header">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!uncheckedIds.has(suggestion.id)}
+                                                    onChange={() => toggleSuggestion(suggestion.id)}
+                                                />
+                                                <span className="field-label">{suggestion.label}</span>
+                                            </label>
+                                            <p className="field-value">"{suggestion.value}"</p>
+                                        </li>
+                                    ))}
+                                </ul>
+                                <div className="suggestion-actions">
+                                    <button
+                                        className="btn-template-apply"
+                                        onClick={() => acceptSuggestions(currentPage, checkedIds)}
+                                        disabled={checkedIds.length === 0}
+                                    >
+                                        Accept {checkedIds.length}
+                                    </button>
+                                    <button
+                                        className="btn-template-apply"
+                                        onClick={() => rejectSuggestions(currentPage, checkedIds)}
+                                        disabled={checkedIds.length === 0}
+                                    >
+                                        Reject {checkedIds.length}
+                                    </button>
+                                </div>
+                            </>
+                        )}
                         {pageFields.length > 0 ? (
                             <>
-                                <p className="panel-meta">{pageFields.length} field{pageFields.length !== 1 ? 's' : ''} on page {currentPage}</p>
+                                <div className="panel-header">
+                                    <p className="panel-meta">{pageFields.length} field{pageFields.length !== 1 ? 's' : ''} on page {currentPage}</p>
+                                    <div className="panel-actions">
+                                        {pageFields.some((f) => f.anchor) && (
+                                            <button
+                                                className="btn-template-apply"
+                                                onClick={() => ocrResult && relocateFields(currentPage, ocrResult)}
+                                                disabled={!ocrResult}
+                                                title="Move anchored fields to follow their anchors on this page (done automatically when its text is OCR'd or replaced)"
+                                            >
+                                                ⚓ Relocate
+                                            </button>
+                                        )}
+                                        <button
+                                            className="btn-template-apply"
+                                            onClick={() => clearPageFields(currentPage)}
+                                            title="Remove every field on this page (Ctrl+Z to undo)"
+                                        >
+                                            Clear page
+                                        </button>
+                                    </div>
+                                </div>
                                 <ul className="field-list">
-                                    {pageFields.map((field) => (
-                                        <li key={field.id} className="field-item">
-                                            <div className="field-item-header">
-                                                <span
-                                                    className="field-color-dot"
-                                                    style={{ backgroundColor: field.color }}
-                                                />
-                                                {editingFieldId === field.id ? (
-                                                    <input
-                                                        className="field-label-edit"
-                                                        value={editingLabel}
-                                                        onChange={(e) => setEditingLabel(e.target.value)}
-                                                        onBlur={() => saveLabel(field.id)}
-                                                        onKeyDown={(e) => {
-                                                            if (e.key === 'Enter') saveLabel(field.id);
-                                                            if (e.key === 'Escape') setEditingFieldId(null);
-                                                        }}
-                                                        autoFocus
-                                                    />
-                                                ) : (
+                                    {pageFields.map((field) => {
+                                        const type = field.type ?? 'text';
+                                        const check = checkField(field);
+                                        return (
+                                            <li key={field.id} className={`field-item${check.error ? ' field-item-invalid' : ''}`}>
+                                                <div className="field-item-header">
                                                     <span
-                                                        className="field-label"
-                                                        onClick={() => startEditLabel(field)}
-                                                        title="Click to rename"
+                                                        className="field-color-dot"
+                                                        style={{ backgroundColor: field.color }}
+                                                    />
+                                                    {editingFieldId === field.id ? (
+                                                        <input
+                                                            className="field-label-edit"
+                                                            value={editingLabel}
+                                                            onChange={(e) => setEditingLabel(e.target.value)}
+                                                            onBlur={() => saveLabel(field.id)}
+                                                            onKeyDown={(e) => {
+                                                                if (e.key === 'Enter') saveLabel(field.id);
+                                                                if (e.key === 'Escape') setEditingFieldId(null);
+                                                            }}
+                                                            autoFocus
+                                                        />
+                                                    ) : (
+                                                        <span
+                                                            className="field-label"
+                                                            onClick={() => startEditLabel(field)}
+                                                            title="Click to rename"
+                                                        >
+                                                            {field.label}
+                                                        </span>
+                                                    )}
+                                                    <button
+                                                        className="btn-remove-field btn-anchor-field"
+                                                        onClick={() => startAnchor(field)}
+                                                        disabled={!ocrResult}
+                                                        title="Position this field relative to a phrase on the page"
+                                                    >
+                                                        ⚓
+                                                    </button>
+                                                    <button
+                                                        className="btn-remove-field"
+                                                        onClick={() => removeField(field.id, currentPage)}
+                                                        title="Remove field"
+                                                    >
+                                                        ×
+                                                    </button>
+                                                </div>
+                                                <p className="field-value">"{field.value}"</p>
+                                                <div className="field-type-row">
+                                                    <select
+                                                        className="toolbar-select"
+                                                        value={type}
+                                                        onChange={(e) => changeFieldType(field, e.target.value as FieldType)}
+                                                        title="Value type"
                                                     >
-                                                        {field.label}
-                                                    </span>
+                                                        {Object.entries(FIELD_TYPE_LABELS).map(([t, label]) => (
+                                                            <option key={t} value={t}>{label}</option>
+                                                        ))}
+                                                    </select>
+                                                    {LOCALE_FIELD_TYPES.includes(type) && (
+                                                        <select
+                                                            className="toolbar-select"
+                                                            value={field.locale ?? DEFAULT_LOCALE}
+                                                            onChange={(e) => setFieldType(field.id, currentPage, type, e.target.value)}
+                                                            title="How numbers and dates are written in this field"
+                                                        >
+                                                            {[...new Set([field.locale ?? DEFAULT_LOCALE, ...LOCALE_OPTIONS])].map((l) => (
+                                                                <option key={l} value={l}>{l}</option>
+                                                            ))}
+                                                        </select>
+                                                    )}
+                                                    {type !== 'text' && !check.error && check.normalized !== null && (
+                                                        <span className="field-normalized" title="Normalized value">
+                                                            → {formatNormalized(check.normalized)}
+                                                        </span>
+                                                    )}
+                                                </div>
+                                                {check.error && <p className="field-error">{check.error}</p>}
+                                                {anchoringFieldId === field.id && (
+                                                    <div className="field-type-row">
+                                                        <input
+                                                            className="field-label-edit"
+                                                            value={anchorText}
+                                                            placeholder="Anchor phrase, e.g. Policy Number"
+                                                            onChange={(e) => { setAnchorText(e.target.value); setAnchorError(null); }}
+                                                            onKeyDown={(e) => {
+                                                                if (e.key === 'Enter') saveAnchor(field);
+                                                                if (e.key === 'Escape') setAnchoringFieldId(null);
+                                                            }}
+                                                            autoFocus
+                                                        />
+                                                    </div>
                                                 )}
-                                                <button
-                                                    className="btn-remove-field"
-                                                    onClick={() => removeField(field.id, currentPage)}
-                                                    title="Remove field"
-                                                >
-                                                    ×
-                                                </button>
-                                            </div>
-                                            <p className="field-value">"{field.value}"</p>
-                                        </li>
-                                    ))}
+                                                {anchoringFieldId === field.id && anchorError && (
+                                                    <p className="field-error">{anchorError}</p>
+                                                )}
+                                                {field.anchor && anchoringFieldId !== field.id && (
+                                                    <p className={`field-anchor${field.anchorMissing ? ' field-anchor-warning' : ''}`}>
+                                                        ⚓ "{field.anchor.text}"
+                                                        {field.anchorMissing && ' not found — kept the stored position'}
+                                                        <button
+                                                            className="btn-remove-field"
+                                                            onClick={() => setFieldAnchor(field.id, currentPage, undefined)}
+                                                            title="Detach from the anchor"
+                                                        >
+                                                            ×
+                                                        </button>
+                                                    </p>
+                                                )}
+                                            </li>
+                                        );
+                                    })}
                                 </ul>
                             </>
                         ) : (
@@ -185,30 +473,66 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, ocrResult, isOCRRunning
                 {activeTab === 'annotations' && (
                     <div className="annotations-panel">
                         {pageAnnotations.length > 0 ? (
-                            <ul className="annotation-list">
-                                {pageAnnotations.map((ann) => (
-                                    <li key={ann.id} className="annotation-item">
-                                        <div className="ann-header">
-                                            <span className="ann-color-dot" style={{ backgroundColor: ann.color }} />
-                                            <span className="ann-type">{ann.type}</span>
-                                            <button
-                                                className="btn-remove-ann"
-                                                onClick={() => removeAnnotation(ann.id, currentPage)}
-                                                title="Remove"
-                                            >
-                                                ×
-                                            </button>
-                                        </div>
-                                        {'text' in ann && ann.text && <p className="ann-text">"{ann.text}"</p>}
-                                        {'bbox' in ann && (
-                                            <p className="ann-bbox">
-                                                ({Math.round(ann.bbox.x0)}, {Math.round(ann.bbox.y0)}) →
-                                                ({Math.round(ann.bbox.x1)}, {Math.round(ann.bbox.y1)})
-                                            </p>
-                                        )}
-                                    </li>
-                                ))}
-                            </ul>
+                            <>
+                                <div className="panel-header">
+                                    <p className="panel-meta">{pageAnnotations.length} on page {currentPage}</p>
+                                    <button
+                                        className="btn-template-apply"
+                                        onClick={() => clearPageAnnotations(currentPage)}
+                                        title="Remove all markup on this page (Ctrl+Z to undo)"
+                                    >
+                                        Clear page
+                                    </button>
+                                </div>
+                                <ul className="annotation-list">
+                                    {pageAnnotations.map((ann) => (
+                                        <li key={ann.id} className="annotation-item">
+                                            <div className="ann-header">
+                                                <span className="ann-color-dot" style={{ backgroundColor: ann.color }} />
+                                                <span className="ann-type">{ann.type}</span>
+                                                <button
+                                                    className="btn-remove-ann"
+                                                    onClick={() => removeAnnotation(ann.id, currentPage)}
+                                                    title="Remove"
+                                                >
+                                                    ×
+                                                </button>
+                                            </div>
+                                            {'text' in ann && ann.text && <p className="ann-text">"{ann.text}"</p>}
+                                            {ann.type === 'table' && (
+                                                <>
+                                                    <p className="ann-bbox">
+                                                        {ann.cells.length} rows × {ann.columns.length + 1} columns
+                                                    </p>
+                                                    <table className="ann-table-preview">
+                                                        <tbody>
+                                                            {ann.cells.slice(0, TABLE_PREVIEW_ROWS).map((row, r) => (
+                                                                <tr key={r}>
+                                                                    {row.map((cell, c) => <td key={c}>{cell}</td>)}
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                    <div className="ann-table-actions">
+                                                        <button className="btn-template-apply" onClick={() => onExportTable(ann, 'csv')}>
+                                                            ⬇ CSV
+                                                        </button>
+                                                        <button className="btn-template-apply" onClick={() => onExportTable(ann, 'json')}>
+                                                            ⬇ JSON
+                                                        </button>
+                                                    </div>
+                                                </>
+                                            )}
+                                            {'bbox' in ann && ann.type !== 'table' && (
+                                                <p className="ann-bbox">
+                                                    ({Math.round(ann.bbox.x0)}, {Math.round(ann.bbox.y0)}) →
+                                                    ({Math.round(ann.bbox.x1)}, {Math.round(ann.bbox.y1)})
+                                                </p>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </>
                         ) : (
                             <div className="empty-panel">
                                 <p>No markup annotations on this page.</p>
@@ -216,6 +540,17 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, ocrResult, isOCRRunning
                         )}
                     </div>
                 )}
+
+                {/* ── Templates ── */}
+                {activeTab === 'templates' && <TemplatePanel />}
+
+                {/* ── Extraction rules ── */}
+                {activeTab === 'rules' && <RulesPanel ocrResults={ocrResults} />}
+
+                {/* ── Recent documents ── */}
+                {activeTab === 'recent' && (
+                    <RecentPanel documentHash={documentHash} onResume={onResumeSession} />
+                )}
             </div>
         </aside>
     );
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import type { FieldTemplate } from '../types';
+import { useFieldStore } from '../services/fieldStore';
+import { useTemplateStore } from '../services/templateStore';
+
+/**
+ * Sidebar panel for saving the current fields as a reusable template and
+ * managing (apply / rename / delete) saved templates.
+ */
+const TemplatePanel: React.FC = () => {
+    const fields = useFieldStore((s) => s.fields);
+    const templates = useTemplateStore((s) => s.templates);
+    const activeTemplateId = useTemplateStore((s) => s.activeTemplateId);
+    const saveTemplate = useTemplateStore((s) => s.saveTemplate);
+    const renameTemplate = useTemplateStore((s) => s.renameTemplate);
+    const deleteTemplate = useTemplateStore((s) => s.deleteTemplate);
+    const setActiveTemplate = useTemplateStore((s) => s.setActiveTemplate);
+
+    const [nameInput, setNameInput] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingName, setEditingName] = useState('');
+
+    const allFields = Array.from(fields.values()).flat();
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        const name = nameInput.trim();
+        if (!name || allFields.length === 0) return;
+        saveTemplate(name, allFields);
+        setNameInput('');
+    };
+
+    const startRename = (template: FieldTemplate) => {
+        setEditingId(template.id);
+        setEditingName(template.name);
+    };
+
+    const saveRename = (id: string) => {
+        if (editingName.trim()) renameTemplate(id, editingName.trim());
+        setEditingId(null);
+    };
+
+    return (
+        <div className="templates-panel">
+            <form className="template-save-form" onSubmit={handleSave}>
+                <input
+                    className="popup-input"
+                    type="text"
+                    placeholder="Template name, e.g. ACME Invoice"
+                    value={nameInput}
+                    onChange={(e) => setNameInput(e.target.value)}
+                />
+                <button
+                    type="submit"
+                    className="btn-save-field"
+                    disabled={!nameInput.trim() || allFields.length === 0}
+                    title={allFields.length === 0 ? 'Annotate some fields first' : 'Save current fields as a template'}
+                >
+                    Save {allFields.length} field{allFields.length !== 1 ? 's' : ''}
+                </button>
+            </form>
+
+            {templates.length > 0 ? (
+                <ul className="field-list">
+                    {templates.map((template) => {
+                        const isActive = template.id === activeTemplateId;
+                        return (
+                            <li key={template.id} className={`field-item${isActive ? ' template-active' : ''}`}>
+                                <div className="field-item-header">
+                                    {editingId === template.id ? (
+                                        <input
+                                            className="field-label-edit"
+                                            value={editingName}
+                                            onChange={(e) => setEditingName(e.target.value)}
+                                            onBlur={() => saveRename(template.id)}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') saveRename(template.id);
+                                                if (e.key === 'Escape') setEditingId(null);
+                                            }}
+                                            autoFocus
+                                        />
+                                    ) : (
+                                        <span
+                                            className="field-label"
+                                            onClick={() => startRename(template)}
+                                            title="Click to rename"
+                                        >
+                                            {template.name}
+                                        </span>
+                                    )}
+                                    <button
+                                        className={`btn-template-apply${isActive ? ' active' : ''}`}
+                                        onClick={() => setActiveTemplate(isActive ? null : template.id)}
+                                        title={isActive ? 'Stop auto-applying this template' : 'Apply to this and every newly opened PDF'}
+                                    >
+                                        {isActive ? 'Active' : 'Apply'}
+                                    </button>
+                                    <button
+                                        className="btn-remove-field"
+                                        onClick={() => deleteTemplate(template.id)}
+                                        title="Delete template"
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+                                <p className="field-value">
+                                    {template.fields.map((f) => f.label).join(', ')}
+                                </p>
+                            </li>
+                        );
+                    })}
+                </ul>
+            ) : (
+                <div className="empty-panel">
+                    <p>No templates saved yet.</p>
+                    <p>Label fields on a document, then save them here to reuse the layout.</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TemplatePanel;
@@ -1,5 +1,9 @@
 import React, { useRef } from 'react';
-import type { AnnotationMode } from '../types';
+import type { AnnotationMode, TextGranularity } from '../types';
+import type { FieldExportFormat } from '../services/fieldExport';
+import type { OCRExportFormat } from '../services/ocrExport';
+import type { BatchOCRProgress } from '../services/batchOCR';
+import { OCR_LANGUAGES } from '../services/ocrService';
 
 interface ToolbarProps {
     currentPage: number;
@@ -8,24 +12,76 @@ interface ToolbarProps {
     mode: AnnotationMode;
     annotationColor: string;
     showBBoxes: boolean;
+    granularity: TextGranularity;
     isOCRRunning: boolean;
+    /** Progress of the "OCR all pages" job, or null when idle */
+    batchProgress: BatchOCRProgress | null;
+    /** Render resolution used for OCR */
+    ocrDpi: number;
+    /** Tesseract language(s) used for OCR, e.g. `deu+eng` */
+    ocrLanguage: string;
     /** True when the current page has embedded text (already digitized) */
     isDigitized: boolean;
+    /** True when at least one field exists on any page */
+    hasFields: boolean;
+    /** True when the current page / any page has OCR results */
+    hasPageOCR: boolean;
+    hasOCR: boolean;
+    canUndo: boolean;
+    canRedo: boolean;
     onPrevPage: () => void;
     onNextPage: () => void;
+    onUndo: () => void;
+    onRedo: () => void;
     onZoomIn: () => void;
     onZoomOut: () => void;
     onZoomReset: () => void;
     onModeChange: (mode: AnnotationMode) => void;
     onColorChange: (color: string) => void;
     onToggleBBoxes: () => void;
+    onGranularityChange: (granularity: TextGranularity) => void;
+    onOcrDpiChange: (dpi: number) => void;
+    onOcrLanguageChange: (language: string) => void;
     onRunOCR: () => void;
-    onExportPDF: () => void;
+    onRunBatchOCR: () => void;
+    onCancelBatchOCR: () => void;
+    /** Load OCR results produced elsewhere (hOCR, ALTO, Textract / Azure JSON) */
+    onImportOCR: (file: File) => void;
+    /** `fillable` also turns every labeled field into an AcroForm text field */
+    onExportPDF: (fillable: boolean) => void;
+    onExportFields: (format: FieldExportFormat) => void;
+    /** Export OCR results of the current page or of every page */
+    onExportOCR: (format: OCRExportFormat, scope: 'page' | 'document') => void;
     onOpenFile: (file: File) => void;
+    /** Download the whole workspace as a portable project file */
+    onSaveProject: () => void;
+    onOpenProject: (file: File) => void;
 }
 
 const MODES: { mode: AnnotationMode; label: string; icon: string }[] = [
     { mode: 'field', label: 'Field', icon: '🏷' },
+    { mode: 'table', label: 'Table', icon: '▦' },
+];
+
+const GRANULARITIES: { value: TextGranularity; label: string }[] = [
+    { value: 'word', label: 'Words' },
+    { value: 'line', label: 'Lines' },
+    { value: 'paragraph', label: 'Paragraphs' },
+    { value: 'block', label: 'Blocks' },
+];
+
+/** Render resolutions offered for OCR */
+const OCR_DPI_OPTIONS = [150, 200, 300, 400];
+
+const FIELD_EXPORTS: { format: FieldExportFormat; label: string; title: string }[] = [
+    { format: 'json', label: '⬇ Fields JSON', title: 'Export every field with bbox, word ids and confidence as JSON' },
+    { format: 'csv', label: '⬇ Fields CSV', title: 'Export every field as a flat CSV row' },
+    { format: 'record', label: '⬇ Record', title: 'Export one label → value JSON record for this document' },
+];
+
+const OCR_EXPORTS: { format: OCRExportFormat; label: string }[] = [
+    { format: 'hocr', label: 'hOCR' },
+    { format: 'alto', label: 'ALTO XML' },
 ];
 
 const Toolbar: React.FC<ToolbarProps> = ({
@@ -35,21 +91,44 @@ const Toolbar: React.FC<ToolbarProps> = ({
     mode,
     annotationColor,
     showBBoxes,
+    granularity,
     isOCRRunning,
+    batchProgress,
+    ocrDpi,
+    ocrLanguage,
     isDigitized,
+    hasFields,
+    hasPageOCR,
+    hasOCR,
+    canUndo,
+    canRedo,
     onPrevPage,
     onNextPage,
+    onUndo,
+    onRedo,
     onZoomIn,
     onZoomOut,
     onZoomReset,
     onModeChange,
     onColorChange,
     onToggleBBoxes,
+    onGranularityChange,
+    onOcrDpiChange,
+    onOcrLanguageChange,
     onRunOCR,
+    onRunBatchOCR,
+    onCancelBatchOCR,
+    onImportOCR,
     onExportPDF,
+    onExportFields,
+    onExportOCR,
     onOpenFile,
+    onSaveProject,
+    onOpenProject,
 }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const projectInputRef = useRef<HTMLInputElement>(null);
+    const ocrInputRef = useRef<HTMLInputElement>(null);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -57,6 +136,18 @@ const Toolbar: React.FC<ToolbarProps> = ({
         e.target.value = '';
     };
 
+    const handleProjectChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onOpenProject(file);
+        e.target.value = '';
+    };
+
+    const handleOCRFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) onImportOCR(file);
+        e.target.value = '';
+    };
+
     return (
         <header className="toolbar">
             {/* Open file */}
@@ -71,6 +162,24 @@ const Toolbar: React.FC<ToolbarProps> = ({
                     style={{ display: 'none' }}
                     onChange={handleFileChange}
                 />
+                <button className="btn" onClick={() => projectInputRef.current?.click()} title="Open a saved project file">
+                    📁 Open Project
+                </button>
+                <input
+                    ref={projectInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    style={{ display: 'none' }}
+                    onChange={handleProjectChange}
+                />
+                <button
+                    className="btn"
+                    onClick={onSaveProject}
+                    disabled={numPages === 0}
+                    title="Save PDF, OCR, fields, markup and view settings to one file"
+                >
+                    💾 Save Project
+                </button>
             </div>
 
             <div className="toolbar-divider" />
@@ -90,6 +199,18 @@ const Toolbar: React.FC<ToolbarProps> = ({
 
             <div className="toolbar-divider" />
 
+            {/* Undo / Redo */}
+            <div className="toolbar-group">
+                <button className="btn btn-icon" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                    ↶
+                </button>
+                <button className="btn btn-icon" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+                    ↷
+                </button>
+            </div>
+
+            <div className="toolbar-divider" />
+
             {/* Zoom */}
             <div className="toolbar-group">
                 <button className="btn btn-icon" onClick={onZoomOut}>−</button>
@@ -147,14 +268,80 @@ const Toolbar: React.FC<ToolbarProps> = ({
                 >
                     {showBBoxes ? '🔲 Hide Boxes' : '🔳 Show Boxes'}
                 </button>
+                <select
+                    className="toolbar-select"
+                    value={granularity}
+                    onChange={(e) => onGranularityChange(e.target.value as TextGranularity)}
+                    disabled={!showBBoxes}
+                    title="Show and select text by word, line, paragraph or block"
+                >
+                    {GRANULARITIES.map(({ value, label }) => (
+                        <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+                <select
+                    className="toolbar-select"
+                    value={ocrLanguage}
+                    onChange={(e) => onOcrLanguageChange(e.target.value)}
+                    disabled={isOCRRunning || !!batchProgress}
+                    title="OCR language"
+                >
+                    {OCR_LANGUAGES.map(({ code, label }) => (
+                        <option key={code} value={code}>{label}</option>
+                    ))}
+                </select>
+                <select
+                    className="toolbar-select"
+                    value={ocrDpi}
+                    onChange={(e) => onOcrDpiChange(Number(e.target.value))}
+                    disabled={isOCRRunning || !!batchProgress}
+                    title="OCR render resolution (independent of zoom)"
+                >
+                    {OCR_DPI_OPTIONS.map((dpi) => (
+                        <option key={dpi} value={dpi}>{dpi} DPI</option>
+                    ))}
+                </select>
                 <button
                     className="btn btn-ocr"
                     onClick={onRunOCR}
-                    disabled={isOCRRunning || numPages === 0 || isDigitized}
+                    disabled={isOCRRunning || !!batchProgress || numPages === 0 || isDigitized}
                     title={isDigitized ? 'Page already has embedded text' : 'Run Tesseract OCR on this page'}
                 >
                     {isOCRRunning ? '⏳ Running OCR…' : isDigitized ? '✓ Already Digitized' : '🔍 Run OCR'}
                 </button>
+                <button
+                    className="btn btn-ocr"
+                    onClick={() => ocrInputRef.current?.click()}
+                    disabled={isOCRRunning || !!batchProgress || numPages === 0}
+                    title="Load OCR output from another engine (hOCR, ALTO, Textract or Azure JSON)"
+                >
+                    📄 Load OCR
+                </button>
+                <input
+                    ref={ocrInputRef}
+                    type="file"
+                    accept=".hocr,.html,.htm,.xml,.json"
+                    style={{ display: 'none' }}
+                    onChange={handleOCRFileChange}
+                />
+                {batchProgress ? (
+                    <button
+                        className="btn btn-ocr-cancel"
+                        onClick={onCancelBatchOCR}
+                        title={`Processing page ${batchProgress.pageNumber} — click to cancel`}
+                    >
+                        ✕ Cancel ({batchProgress.index}/{batchProgress.total} · {Math.round(batchProgress.pageProgress * 100)}%)
+                    </button>
+                ) : (
+                    <button
+                        className="btn btn-ocr"
+                        onClick={onRunBatchOCR}
+                        disabled={isOCRRunning || numPages === 0}
+                        title="OCR every page that has no text yet"
+                    >
+                        📚 OCR All Pages
+                    </button>
+                )}
             </div>
 
             <div className="toolbar-divider" />
@@ -163,12 +350,53 @@ const Toolbar: React.FC<ToolbarProps> = ({
             <div className="toolbar-group">
                 <button
                     className="btn btn-export"
-                    onClick={onExportPDF}
+                    onClick={() => onExportPDF(false)}
                     disabled={numPages === 0}
                     title="Export searchable PDF"
                 >
                     ⬇ Export PDF
                 </button>
+                <button
+                    className="btn btn-export"
+                    onClick={() => onExportPDF(true)}
+                    disabled={!hasFields}
+                    title="Export a PDF with a fillable form field for every labeled field"
+                >
+                    ⬇ Fillable PDF
+                </button>
+                {FIELD_EXPORTS.map(({ format, label, title }) => (
+                    <button
+                        key={format}
+                        className="btn btn-export"
+                        onClick={() => onExportFields(format)}
+                        disabled={!hasFields}
+                        title={title}
+                    >
+                        {label}
+                    </button>
+                ))}
+                <select
+                    className="toolbar-select"
+                    value=""
+                    onChange={(e) => {
+                        const [scope, format] = e.target.value.split(':') as ['page' | 'document', OCRExportFormat];
+                        onExportOCR(format, scope);
+                    }}
+                    disabled={!hasOCR}
+                    title="Export OCR words with boxes and confidences in a standard format"
+                >
+                    <option value="" disabled>⬇ OCR…</option>
+                    <optgroup label="This page">
+                        {OCR_EXPORTS.map(({ format, label }) => (
+                            <option key={format} value={`page:${format}`} disabled={!hasPageOCR}>{label}</option>
+                        ))}
+                    </optgroup>
+                    <optgroup label="All pages">
+                        {OCR_EXPORTS.map(({ format, label }) => (
+                            <option key={format} value={`document:${format}`}>{label}</option>
+                        ))}
+                    </optgroup>
+                </select>
             </div>
         </header>
     );
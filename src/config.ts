@@ -0,0 +1,25 @@
+/**
+ * Base URL the pdf.js and Tesseract.js runtime assets are served from.
+ *
+ * The Vite build copies them to `<base>vendor/` (see `selfHostedAssets` in
+ * vite.config.ts), so the app works fully offline. Set `VITE_ASSET_BASE` at
+ * build time to serve them from somewhere else, e.g. an internal static host.
+ */
+const ASSET_BASE = (import.meta.env.VITE_ASSET_BASE ?? `${import.meta.env.BASE_URL}vendor/`).replace(/\/?$/, '/');
+
+/** Absolute URL of a self-hosted asset — absolute because Tesseract resolves paths inside its worker */
+export function assetUrl(path: string): string {
+    return new URL(`${ASSET_BASE}${path}`, window.location.href).href;
+}
+
+/** pdf.js worker script */
+export const PDFJS_WORKER_URL = assetUrl('pdfjs/pdf.worker.min.mjs');
+/** pdf.js CMaps (CJK and other non-embedded encodings) — trailing slash required */
+export const PDFJS_CMAP_URL = assetUrl('pdfjs/cmaps/');
+/** pdf.js standard font data for non-embedded fonts — trailing slash required */
+export const PDFJS_STANDARD_FONT_URL = assetUrl('pdfjs/standard_fonts/');
+
+/** Tesseract.js worker script, WASM core directory and traineddata directory */
+export const TESSERACT_WORKER_URL = assetUrl('tesseract/worker.min.js');
+export const TESSERACT_CORE_URL = assetUrl('tesseract/core');
+export const TESSERACT_LANG_URL = assetUrl('tesseract/lang');
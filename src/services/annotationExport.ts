@@ -0,0 +1,209 @@
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFPage, PDFRef, PDFString } from 'pdf-lib';
+import type { Annotation } from '../types';
+import { displaySize, getPageGeometry, normToUser, type Vec2 } from './pdfGeometry';
+
+/** Side length (points) of the sticky-note icon written for comments */
+const NOTE_ICON_SIZE = 20;
+/** Border width (points) of exported rectangles and the default ink width */
+const DEFAULT_LINE_WIDTH = 2;
+/** Points sampled along each Bézier segment of a freehand path */
+const CURVE_STEPS = 4;
+
+/** '#rgb' / '#rrggbb' → PDF DeviceRGB components (0–1); black on anything else */
+function colorComponents(hex: string): number[] {
+    let h = hex.replace('#', '');
+    if (h.length === 3) h = h.split('').map((c) => c + c).join('');
+    const n = parseInt(h, 16);
+    if (h.length !== 6 || Number.isNaN(n)) return [0, 0, 0];
+    return [(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff].map((c) => Math.round((c / 255) * 1000) / 1000);
+}
+
+/** [llx, lly, urx, ury] bounding every point, grown by `pad` on each side */
+function boundsOf(points: Vec2[], pad = 0): number[] {
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    return [Math.min(...xs) - pad, Math.min(...ys) - pad, Math.max(...xs) + pad, Math.max(...ys) + pad];
+}
+
+/**
+ * Turn a serialized Fabric.js path into strokes of canvas points. Every `M`
+ * starts a new stroke; quadratic and cubic segments are flattened.
+ */
+function fabricStrokes(fabricJson: string): { strokes: Vec2[][]; strokeWidth?: number } {
+    const obj = JSON.parse(fabricJson) as { path?: (string | number)[][]; strokeWidth?: number };
+    const strokes: Vec2[][] = [];
+    let current: Vec2[] = [];
+    let pen: Vec2 = { x: 0, y: 0 };
+
+    for (const [cmd, ...args] of obj.path ?? []) {
+        const n = args as number[];
+        switch (String(cmd).toUpperCase()) {
+            case 'M':
+                if (current.length > 0) strokes.push(current);
+                pen = { x: n[0], y: n[1] };
+                current = [pen];
+                break;
+            case 'L':
+                pen = { x: n[0], y: n[1] };
+                current.push(pen);
+                break;
+            case 'Q':
+                for (let i = 1; i <= CURVE_STEPS; i++) {
+                    const t = i / CURVE_STEPS;
+                    const a = (1 - t) * (1 - t), b = 2 * (1 - t) * t, c = t * t;
+                    current.push({ x: a * pen.x + b * n[0] + c * n[2], y: a * pen.y + b * n[1] + c * n[3] });
+                }
+                pen = { x: n[2], y: n[3] };
+                break;
+            case 'C':
+                for (let i = 1; i <= CURVE_STEPS; i++) {
+                    const t = i / CURVE_STEPS, u = 1 - t;
+                    const a = u * u * u, b = 3 * u * u * t, c = 3 * u * t * t, d = t * t * t;
+                    current.push({
+                        x: a * pen.x + b * n[0] + c * n[2] + d * n[4],
+                        y: a * pen.y + b * n[1] + c * n[3] + d * n[5],
+                    });
+                }
+                pen = { x: n[4], y: n[5] };
+                break;
+            case 'Z':
+                if (current.length > 0) current.push(current[0]);
+                break;
+        }
+    }
+    if (current.length > 0) strokes.push(current);
+    return { strokes, strokeWidth: obj.strokeWidth };
+}
+
+/**
+ * Build the annotation dictionary for one markup, or null if it has no
+ * usable geometry. `toUser` maps displayed-page points (scale 1, top-left
+ * origin — the units the drawing layers store) into PDF user space.
+ */
+function annotationDict(
+    doc: PDFDocument,
+    page: PDFPage,
+    annotation: Annotation,
+    toUser: (x: number, y: number) => Vec2
+): PDFDict | null {
+    const date = PDFString.fromDate(new Date(annotation.createdAt));
+    const common = {
+        Type: 'Annot',
+        P: page.ref,
+        NM: PDFString.of(annotation.id),
+        C: colorComponents(annotation.color),
+        M: date,
+        CreationDate: date,
+        // Print flag, so the markup also shows up on paper
+        F: 4,
+    };
+
+    switch (annotation.type) {
+        case 'rectangle': {
+            const { x0, y0, x1, y1 } = annotation.bbox;
+            const rect = boundsOf([toUser(x0, y0), toUser(x1, y1)]);
+            return doc.context.obj({ ...common, Subtype: 'Square', Rect: rect, BS: { W: DEFAULT_LINE_WIDTH } });
+        }
+        case 'highlight': {
+            const { x0, y0, x1, y1 } = annotation.bbox;
+            // Upper-left, upper-right, lower-left, lower-right as seen on screen
+            const quad = [toUser(x0, y0), toUser(x1, y0), toUser(x0, y1), toUser(x1, y1)];
+            return doc.context.obj({
+                ...common,
+                Subtype: 'Highlight',
+                Rect: boundsOf(quad),
+                QuadPoints: quad.flatMap((p) => [p.x, p.y]),
+                Contents: PDFHexString.fromText(annotation.text),
+            });
+        }
+        case 'freehand': {
+            const scale = annotation.scale ?? 1;
+            const { strokes, strokeWidth } = fabricStrokes(annotation.fabricJson);
+            const inkList = strokes.map((stroke) => stroke.map((p) => toUser(p.x / scale, p.y / scale)));
+            const points = inkList.flat();
+            if (points.length === 0) return null;
+            const width = (strokeWidth ?? DEFAULT_LINE_WIDTH) / scale;
+            return doc.context.obj({
+                ...common,
+                Subtype: 'Ink',
+                Rect: boundsOf(points, width / 2),
+                InkList: inkList.map((stroke) => stroke.flatMap((p) => [p.x, p.y])),
+                BS: { W: width },
+            });
+        }
+        case 'comment': {
+            const { x, y } = annotation.position;
+            return doc.context.obj({
+                ...common,
+                Subtype: 'Text',
+                Rect: boundsOf([toUser(x, y), toUser(x + NOTE_ICON_SIZE, y + NOTE_ICON_SIZE)]),
+                Contents: PDFHexString.fromText(annotation.text),
+                Name: 'Comment',
+                Open: false,
+            });
+        }
+        case 'table':
+            // No PDF annotation type fits a table — it is exported as CSV / JSON instead
+            return null;
+    }
+}
+
+/** A reference in pdf.js annotation id form: `12R`, or `12R1` for generation 1 */
+function pdfjsId(ref: PDFRef): string {
+    return `${ref.objectNumber}R${ref.generationNumber === 0 ? '' : ref.generationNumber}`;
+}
+
+/**
+ * Drop the page's annotations that `importPageAnnotations` brought into the
+ * store (plus their popups) — the store's copies replace them, so edits and
+ * deletions made in the app carry into the export. Anything not imported
+ * stays, whatever its subtype.
+ */
+function removeImportedAnnotations(doc: PDFDocument, page: PDFPage, importedRefs: Set<string>): void {
+    const entries = page.node.Annots()?.asArray() ?? [];
+    const isImported = (entry: unknown) => entry instanceof PDFRef && importedRefs.has(pdfjsId(entry));
+
+    const kept = entries.filter((entry) => {
+        if (isImported(entry)) return false;
+        const dict = doc.context.lookupMaybe(entry, PDFDict);
+        const isPopup = dict?.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() === 'Popup';
+        return !(isPopup && isImported(dict?.get(PDFName.of('Parent'))));
+    });
+    if (kept.length < entries.length) page.node.set(PDFName.of('Annots'), doc.context.obj(kept));
+}
+
+/**
+ * Append every markup annotation to its page's /Annots as a native PDF
+ * annotation — Square for rectangles, Highlight (with QuadPoints) for text
+ * highlights, Ink for freehand paths and a Text note for comments — so other
+ * viewers can show, edit and delete them. Colors and creation dates carry
+ * over; no appearance streams are written, viewers generate their own.
+ * The PDF's own annotations listed in `importedRefs` were imported on open
+ * and are replaced by the store's version.
+ */
+export function writeAnnotations(
+    doc: PDFDocument,
+    annotations: Map<number, Annotation[]>,
+    importedRefs: string[] = []
+): void {
+    const pages = doc.getPages();
+
+    if (importedRefs.length > 0) {
+        const refs = new Set(importedRefs);
+        for (const page of pages) removeImportedAnnotations(doc, page, refs);
+    }
+
+    for (const [pageNumber, pageAnnotations] of annotations.entries()) {
+        const page = pages[pageNumber - 1];
+        if (!page || pageAnnotations.length === 0) continue;
+
+        const geom = getPageGeometry(page);
+        const size = displaySize(geom);
+        const toUser = (x: number, y: number) => normToUser(geom, x / size.width, y / size.height);
+
+        for (const annotation of pageAnnotations) {
+            const dict = annotationDict(doc, page, annotation, toUser);
+            if (dict) page.node.addAnnot(doc.context.register(dict));
+        }
+    }
+}
@@ -6,8 +6,12 @@ interface AnnotationState {
     annotations: Map<number, Annotation[]>;
     addAnnotation: (annotation: Annotation) => void;
     removeAnnotation: (id: string, pageNumber: number) => void;
+    /** Replace the annotation with the same id (on its page) */
+    updateAnnotation: (annotation: Annotation) => void;
     clearPage: (pageNumber: number) => void;
     clearAll: () => void;
+    /** Replace every annotation at once, e.g. when restoring a saved session */
+    replaceAll: (annotations: Map<number, Annotation[]>) => void;
     getPageAnnotations: (pageNumber: number) => Annotation[];
 }
 
@@ -33,6 +37,17 @@ export const useAnnotationStore = create<AnnotationState>((set, get) => ({
             return { annotations: next };
         }),
 
+    updateAnnotation: (annotation) =>
+        set((state) => {
+            const next = new Map(state.annotations);
+            const existing = next.get(annotation.pageNumber) ?? [];
+            next.set(
+                annotation.pageNumber,
+                existing.map((a) => (a.id === annotation.id ? annotation : a))
+            );
+            return { annotations: next };
+        }),
+
     clearPage: (pageNumber) =>
         set((state) => {
             const next = new Map(state.annotations);
@@ -42,6 +57,8 @@ export const useAnnotationStore = create<AnnotationState>((set, get) => ({
 
     clearAll: () => set({ annotations: new Map() }),
 
+    replaceAll: (annotations) => set({ annotations: new Map(annotations) }),
+
     getPageAnnotations: (pageNumber) => {
         return get().annotations.get(pageNumber) ?? [];
     },
@@ -0,0 +1,88 @@
+import type { OCRResult } from '../types';
+import { recognizePdfPage, terminateOCR } from './ocrService';
+import { extractPageText } from './pdfTextExtractor';
+import type { PdfDocumentProxy, PdfRenderablePage } from './pageRenderer';
+
+export interface BatchOCRProgress {
+    /** Page being processed (1-based page number) */
+    pageNumber: number;
+    /** Position of that page within the batch (1-based) */
+    index: number;
+    total: number;
+    /** Recognition progress of the current page (0–1) */
+    pageProgress: number;
+}
+
+interface BatchOCROptions {
+    /** Pages to process, in order — callers leave out pages that already have results */
+    pages: number[];
+    /** Resolution pages are rendered at for OCR */
+    dpi: number;
+    signal: AbortSignal;
+    onProgress: (progress: BatchOCRProgress) => void;
+    /** Called as soon as each page finishes; `digitized` is true for embedded text */
+    onPageResult: (result: OCRResult, digitized: boolean) => void;
+}
+
+/** Reject as soon as `signal` aborts, instead of waiting for `promise` */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => reject(new DOMException('OCR batch cancelled', 'AbortError'));
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/**
+ * OCR a list of pages one after another.
+ *
+ * Pages that turn out to have an embedded text layer use it directly; all
+ * others are rendered off-screen at `dpi` and recognized. Aborting the
+ * signal stops the batch immediately and terminates the Tesseract worker
+ * (it is re-created on the next OCR run).
+ *
+ * @returns Number of pages completed before finishing or cancelling
+ */
+export async function ocrDocument(pdf: PdfDocumentProxy, options: BatchOCROptions): Promise<number> {
+    const { pages, dpi, signal, onProgress, onPageResult } = options;
+    const stopWorker = () => { terminateOCR(); };
+    signal.addEventListener('abort', stopWorker, { once: true });
+
+    let completed = 0;
+    try {
+        for (const [i, pageNumber] of pages.entries()) {
+            if (signal.aborted) break;
+            const report = (pageProgress: number) =>
+                onProgress({ pageNumber, index: i + 1, total: pages.length, pageProgress });
+            report(0);
+
+            const page = await abortable(pdf.getPage(pageNumber), signal);
+
+            const embedded = await abortable(
+                extractPageText(page as Parameters<typeof extractPageText>[0], pageNumber),
+                signal
+            ).catch((err) => {
+                if (signal.aborted) throw err;
+                return null;
+            });
+            if (embedded) {
+                onPageResult(embedded, true);
+                completed++;
+                continue;
+            }
+
+            const result = await abortable(
+                recognizePdfPage(page as PdfRenderablePage, pageNumber, dpi, report),
+                signal
+            );
+            onPageResult(result, false);
+            completed++;
+        }
+    } catch (err) {
+        if (!signal.aborted) throw err;
+    } finally {
+        signal.removeEventListener('abort', stopWorker);
+    }
+    return completed;
+}
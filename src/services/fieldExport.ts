@@ -0,0 +1,134 @@
+import type { FieldAnnotation, FieldType, OCRBBox, OCRResult } from '../types';
+import { checkField, formatNormalized, type NormalizedFieldValue } from '../utils/fieldValues';
+
+/** Output shapes offered by the field export */
+export type FieldExportFormat = 'json' | 'csv' | 'record';
+
+/** One field as written by the JSON / CSV exports */
+export interface ExportedField {
+    label: string;
+    /** Text as captured from the page */
+    value: string;
+    type: FieldType;
+    /** Canonical value for the type, or null when empty or invalid */
+    normalizedValue: NormalizedFieldValue;
+    /** Why the value does not fit its type, or null */
+    error: string | null;
+    pageNumber: number;
+    /** Normalized [0,1] field region */
+    bbox: OCRBBox;
+    wordIds: string[];
+    /** Mean confidence (0–100) of the captured words, or null if none were captured */
+    confidence: number | null;
+}
+
+/** "One record per document" shape — label → value, ready for ingestion */
+export interface DocumentRecord {
+    document: string;
+    exportedAt: string;
+    /** Raw values; repeated labels collect their values into an array, in page/reading order */
+    fields: Record<string, string | string[]>;
+    /** The same, with each value normalized for its field's type */
+    normalized: Record<string, NormalizedFieldValue | NormalizedFieldValue[]>;
+}
+
+/**
+ * Flatten every page's fields into export rows, in page order, and attach the
+ * average confidence of each field's words from `ocrResults`.
+ */
+export function collectFields(
+    fields: Map<number, FieldAnnotation[]>,
+    ocrResults: Map<number, OCRResult>
+): ExportedField[] {
+    const pages = Array.from(fields.keys()).sort((a, b) => a - b);
+    const rows: ExportedField[] = [];
+
+    for (const pageNumber of pages) {
+        const words = ocrResults.get(pageNumber)?.words ?? [];
+        const confidenceById = new Map(words.map((w) => [w.id, w.confidence]));
+
+        for (const field of fields.get(pageNumber) ?? []) {
+            const confidences = field.wordIds
+                .map((id) => confidenceById.get(id))
+                .filter((c): c is number => c !== undefined);
+            const { normalized, error } = checkField(field);
+            rows.push({
+                label: field.label,
+                value: field.value,
+                type: field.type ?? 'text',
+                normalizedValue: normalized,
+                error,
+                pageNumber: field.pageNumber,
+                bbox: { ...field.bbox },
+                wordIds: [...field.wordIds],
+                confidence: confidences.length > 0
+                    ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length
+                    : null,
+            });
+        }
+    }
+
+    return rows;
+}
+
+/** Structured JSON: an array with one object per field */
+export function fieldsToJSON(rows: ExportedField[]): string {
+    return JSON.stringify(rows, null, 2);
+}
+
+/** Quote a CSV cell per RFC 4180 when it contains a delimiter, quote or newline */
+export function csvCell(value: string | number | null): string {
+    if (value === null) return '';
+    const s = String(value);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/**
+ * Flat CSV: one row per field, bbox split into four columns, word ids
+ * space-separated. Type columns come last so earlier column positions stay put.
+ */
+export function fieldsToCSV(rows: ExportedField[]): string {
+    const header = [
+        'label', 'value', 'page', 'x0', 'y0', 'x1', 'y1', 'wordIds', 'confidence', 'type', 'normalizedValue', 'error',
+    ];
+    const lines = rows.map((r) =>
+        [
+            r.label,
+            r.value,
+            r.pageNumber,
+            r.bbox.x0,
+            r.bbox.y0,
+            r.bbox.x1,
+            r.bbox.y1,
+            r.wordIds.join(' '),
+            r.confidence === null ? null : Math.round(r.confidence * 100) / 100,
+            r.type,
+            formatNormalized(r.normalizedValue),
+            r.error,
+        ].map(csvCell).join(',')
+    );
+    return [header.join(','), ...lines].join('\r\n');
+}
+
+/** Add `value` under `label`, turning repeated labels into arrays */
+function collect<T>(record: Record<string, T | T[]>, label: string, value: T): void {
+    const existing = record[label];
+    if (existing === undefined) record[label] = value;
+    else record[label] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+}
+
+/** Collapse all fields into a single label → value record for the document */
+export function fieldsToRecord(rows: ExportedField[], documentName: string): DocumentRecord {
+    const fields: DocumentRecord['fields'] = {};
+    const normalized: DocumentRecord['normalized'] = {};
+    for (const { label, value, normalizedValue } of rows) {
+        collect(fields, label, value);
+        collect(normalized, label, normalizedValue);
+    }
+    return {
+        document: documentName,
+        exportedAt: new Date().toISOString(),
+        fields,
+        normalized,
+    };
+}
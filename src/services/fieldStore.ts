@@ -1,5 +1,7 @@
 import { create } from 'zustand';
-import type { FieldAnnotation, OCRBBox, OCRWord } from '../types';
+import type { FieldAnchor, FieldAnnotation, FieldType, OCRBBox, OCRResult, OCRWord } from '../types';
+import { captureTextInBox } from '../utils/textCapture';
+import { locateByAnchor } from '../utils/fieldAnchors';
 
 /** Palette of distinct colors cycled for new fields */
 const FIELD_COLORS = [
@@ -8,6 +10,9 @@ const FIELD_COLORS = [
     '#9b59b6', '#00bcd4',
 ];
 
+/** Color of suggested fields until they are accepted */
+export const SUGGESTION_COLOR = '#8a8fb5';
+
 /** Merge multiple [0,1]-normalized bboxes into one encompassing bbox */
 export function mergeBBoxes(bboxes: OCRBBox[]): OCRBBox {
     return {
@@ -18,19 +23,50 @@ export function mergeBBoxes(bboxes: OCRBBox[]): OCRBBox {
     };
 }
 
+/** Field properties beyond geometry and text that can be given on creation */
+export type FieldOptions = Pick<FieldAnnotation, 'type' | 'locale' | 'anchor' | 'anchorMissing' | 'pdfFieldName'>;
+
 interface FieldState {
     fields: Map<number, FieldAnnotation[]>;
+    /** Suggested fields per page (key–value detection) — not real fields until accepted */
+    suggestions: Map<number, FieldAnnotation[]>;
     colorIndex: number;
 
     /** Create a field from selected OCR words */
     addField: (pageNumber: number, label: string, words: OCRWord[]) => FieldAnnotation;
     /** Create a field from a freely-drawn bounding box, with optional captured text */
-    addFieldRect: (pageNumber: number, label: string, bbox: OCRBBox, value?: string, wordIds?: string[]) => FieldAnnotation;
+    addFieldRect: (
+        pageNumber: number,
+        label: string,
+        bbox: OCRBBox,
+        value?: string,
+        wordIds?: string[],
+        options?: FieldOptions
+    ) => FieldAnnotation;
     removeField: (id: string, pageNumber: number) => void;
     updateLabel: (id: string, pageNumber: number, label: string) => void;
+    /** Set what a field's value holds and the locale it is written in */
+    setFieldType: (id: string, pageNumber: number, type: FieldType, locale?: string) => void;
+    /** Position a field relative to an anchor phrase, or detach it with undefined */
+    setFieldAnchor: (id: string, pageNumber: number, anchor: FieldAnchor | undefined) => void;
+    /**
+     * Move every anchored field on the page to follow its anchor and
+     * re-capture its text there; fields whose anchor is gone stay put and
+     * are flagged `anchorMissing`.
+     */
+    relocateFields: (pageNumber: number, ocrResult: OCRResult) => void;
+    /** Move/resize a field to `bbox`, replacing its captured text */
+    moveField: (id: string, pageNumber: number, bbox: OCRBBox, value: string, wordIds: string[]) => void;
     clearPage: (pageNumber: number) => void;
     clearAll: () => void;
+    /** Replace every field at once, e.g. when restoring a saved session */
+    replaceAll: (fields: Map<number, FieldAnnotation[]>) => void;
     getPageFields: (pageNumber: number) => FieldAnnotation[];
+    /** Replace a page's suggestions with one per label → value words pair */
+    setSuggestions: (pageNumber: number, pairs: { label: string; words: OCRWord[] }[]) => void;
+    /** Turn the given suggestions into fields, in one step */
+    acceptSuggestions: (pageNumber: number, ids: string[]) => void;
+    rejectSuggestions: (pageNumber: number, ids: string[]) => void;
 }
 
 function storeField(
@@ -49,6 +85,7 @@ function storeField(
 
 export const useFieldStore = create<FieldState>((set, get) => ({
     fields: new Map(),
+    suggestions: new Map(),
     colorIndex: 0,
 
     addField: (pageNumber, label, words) => {
@@ -66,7 +103,7 @@ export const useFieldStore = create<FieldState>((set, get) => ({
         return storeField(set, get, field);
     },
 
-    addFieldRect: (pageNumber, label, bbox, value = '', wordIds = []) => {
+    addFieldRect: (pageNumber, label, bbox, value = '', wordIds = [], options = {}) => {
         const color = FIELD_COLORS[get().colorIndex % FIELD_COLORS.length];
         const field: FieldAnnotation = {
             id: crypto.randomUUID(),
@@ -77,6 +114,7 @@ export const useFieldStore = create<FieldState>((set, get) => ({
             wordIds,
             color,
             createdAt: Date.now(),
+            ...options,
         };
         return storeField(set, get, field);
     },
@@ -98,6 +136,52 @@ export const useFieldStore = create<FieldState>((set, get) => ({
             return { fields: next };
         }),
 
+    setFieldType: (id, pageNumber, type, locale) =>
+        set((s) => {
+            const next = new Map(s.fields);
+            next.set(
+                pageNumber,
+                (next.get(pageNumber) ?? []).map((f) => (f.id === id ? { ...f, type, locale } : f))
+            );
+            return { fields: next };
+        }),
+
+    setFieldAnchor: (id, pageNumber, anchor) =>
+        set((s) => {
+            const next = new Map(s.fields);
+            next.set(
+                pageNumber,
+                (next.get(pageNumber) ?? []).map((f) => (f.id === id ? { ...f, anchor, anchorMissing: undefined } : f))
+            );
+            return { fields: next };
+        }),
+
+    relocateFields: (pageNumber, ocrResult) =>
+        set((s) => {
+            const next = new Map(s.fields);
+            next.set(
+                pageNumber,
+                (next.get(pageNumber) ?? []).map((f) => {
+                    if (!f.anchor) return f;
+                    const { bbox, anchor, anchorMissing } = locateByAnchor(f.bbox, f.anchor, ocrResult);
+                    if (anchorMissing) return { ...f, anchorMissing };
+                    const { text, wordIds } = captureTextInBox(ocrResult.words, bbox);
+                    return { ...f, bbox, anchor, anchorMissing: undefined, value: text, wordIds };
+                })
+            );
+            return { fields: next };
+        }),
+
+    moveField: (id, pageNumber, bbox, value, wordIds) =>
+        set((s) => {
+            const next = new Map(s.fields);
+            next.set(
+                pageNumber,
+                (next.get(pageNumber) ?? []).map((f) => (f.id === id ? { ...f, bbox, value, wordIds } : f))
+            );
+            return { fields: next };
+        }),
+
     clearPage: (pageNumber) =>
         set((s) => {
             const next = new Map(s.fields);
@@ -105,7 +189,51 @@ export const useFieldStore = create<FieldState>((set, get) => ({
             return { fields: next };
         }),
 
-    clearAll: () => set({ fields: new Map(), colorIndex: 0 }),
+    clearAll: () => set({ fields: new Map(), suggestions: new Map(), colorIndex: 0 }),
+
+    replaceAll: (fields) =>
+        set({
+            fields: new Map(fields),
+            suggestions: new Map(),
+            // Continue the palette after the restored fields
+            colorIndex: Array.from(fields.values()).reduce((n, list) => n + list.length, 0),
+        }),
 
     getPageFields: (pageNumber) => get().fields.get(pageNumber) ?? [],
+
+    setSuggestions: (pageNumber, pairs) =>
+        set((s) => {
+            const next = new Map(s.suggestions);
+            next.set(pageNumber, pairs.map(({ label, words }) => ({
+                id: crypto.randomUUID(),
+                pageNumber,
+                label,
+                value: words.map((w) => w.text).join(' '),
+                bbox: mergeBBoxes(words.map((w) => w.bbox)),
+                wordIds: words.map((w) => w.id),
+                color: SUGGESTION_COLOR,
+                createdAt: Date.now(),
+            })));
+            return { suggestions: next };
+        }),
+
+    acceptSuggestions: (pageNumber, ids) =>
+        set((s) => {
+            const pending = s.suggestions.get(pageNumber) ?? [];
+            const accepted = pending
+                .filter((f) => ids.includes(f.id))
+                .map((f, i) => ({ ...f, color: FIELD_COLORS[(s.colorIndex + i) % FIELD_COLORS.length], createdAt: Date.now() }));
+            const fields = new Map(s.fields);
+            fields.set(pageNumber, [...(fields.get(pageNumber) ?? []), ...accepted]);
+            const suggestions = new Map(s.suggestions);
+            suggestions.set(pageNumber, pending.filter((f) => !ids.includes(f.id)));
+            return { fields, suggestions, colorIndex: s.colorIndex + accepted.length };
+        }),
+
+    rejectSuggestions: (pageNumber, ids) =>
+        set((s) => {
+            const suggestions = new Map(s.suggestions);
+            suggestions.set(pageNumber, (suggestions.get(pageNumber) ?? []).filter((f) => !ids.includes(f.id)));
+            return { suggestions };
+        }),
 }));
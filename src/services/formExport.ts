@@ -0,0 +1,131 @@
+import { PDFDocument, PDFHexString, PDFName, PDFRef, PDFTextField, StandardFonts, degrees } from 'pdf-lib';
+import type { FieldAnnotation } from '../types';
+import { getPageGeometry, normBBoxSize, normBBoxToUserRect, type PageGeometry, type UserRect } from './pdfGeometry';
+
+/**
+ * pdf-lib splits fully qualified names on '.', so periods in a label would
+ * create nested fields — swap them out and fall back to a generic name.
+ */
+function baseFieldName(label: string): string {
+    return label.trim().replace(/\./g, '_') || 'Field';
+}
+
+/**
+ * Widget placement for pdf-lib's `addToPage`: it takes the size along the
+ * displayed axes plus a `rotate`, and anchors the box at a different corner
+ * per rotation — pick the corner that lands it exactly on `rect`.
+ */
+function widgetPlacement(geom: PageGeometry, rect: UserRect, size: { width: number; height: number }) {
+    const { x, y, width: w, height: h } = rect;
+    const anchor =
+        geom.rotation === 90 ? { x: x + w, y }
+            : geom.rotation === 180 ? { x: x + w, y: y + h }
+                : geom.rotation === 270 ? { x, y: y + h }
+                    : { x, y };
+    return { ...anchor, width: size.width, height: size.height, rotate: degrees(geom.rotation) };
+}
+
+/**
+ * Remove a text field and its widgets. pdf-lib's `form.removeField` looks
+ * widgets up through their appearance streams, so it throws for widgets
+ * without one and leaves the extra widgets of multi-widget fields dangling
+ * in the pages' /Annots.
+ */
+function removeTextField(doc: PDFDocument, field: PDFTextField): void {
+    const refs = new Set<PDFRef>([field.ref]);
+    for (const widget of field.acroField.getWidgets()) {
+        const ref = doc.context.getObjectRef(widget.dict);
+        if (ref) refs.add(ref);
+    }
+    for (const page of doc.getPages()) {
+        const annots = page.node.Annots();
+        if (!annots) continue;
+        const kept = annots.asArray().filter((entry) => !(entry instanceof PDFRef && refs.has(entry)));
+        if (kept.length < annots.size()) page.node.set(PDFName.of('Annots'), doc.context.obj(kept));
+    }
+    doc.getForm().acroForm.removeField(field.acroField);
+    refs.forEach((ref) => doc.context.delete(ref));
+}
+
+/**
+ * Add one AcroForm text field per labeled field, so the exported PDF can be
+ * filled in by any form-capable reader.
+ *
+ * The label becomes the field name, the bbox the widget rectangle (upright
+ * on screen, honouring /Rotate and the CropBox) and the captured value both
+ * the current and the default (/DV, restored on form reset) value.
+ * Repeated labels — or labels clashing with fields already in the PDF — get
+ * a numeric suffix (`Total`, `Total_2`, …) since every field needs a
+ * unique name.
+ *
+ * The PDF's text fields listed in `importedNames` were imported as labeled
+ * fields on open, so they are removed first and recreated from the store:
+ * under their own name, with one widget per labeled field still carrying it
+ * (`pdfFieldName`, label unchanged). Every other field of the PDF is kept.
+ */
+export async function writeFormFields(
+    doc: PDFDocument,
+    fields: Map<number, FieldAnnotation[]>,
+    importedNames: string[] = []
+): Promise<void> {
+    const form = doc.getForm();
+    for (const name of importedNames) {
+        const existing = form.getFieldMaybe(name);
+        if (existing instanceof PDFTextField) removeTextField(doc, existing);
+    }
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const supported = new Set(font.getCharacterSet());
+    const pages = doc.getPages();
+    let needsAppearances = false;
+
+    const uniqueName = (label: string) => {
+        const base = baseFieldName(label);
+        let name = base;
+        for (let n = 2; form.getFieldMaybe(name); n++) name = `${base}_${n}`;
+        return name;
+    };
+
+    /** Recreated PDF fields by name, so all widgets of one land in the same field */
+    const recreated = new Map<string, PDFTextField>();
+    /** First non-empty value captured for each field */
+    const values = new Map<PDFTextField, string>();
+
+    const ordered = [...fields.entries()].sort(([a], [b]) => a - b);
+    for (const [pageNumber, pageFields] of ordered) {
+        const page = pages[pageNumber - 1];
+        if (!page) continue;
+        const geom = getPageGeometry(page);
+
+        for (const field of pageFields) {
+            const pdfName = field.pdfFieldName === field.label ? field.pdfFieldName : undefined;
+            let textField = pdfName ? recreated.get(pdfName) : undefined;
+            if (!textField) {
+                textField = form.createTextField(pdfName && !form.getFieldMaybe(pdfName) ? pdfName : uniqueName(field.label));
+                if (pdfName) recreated.set(pdfName, textField);
+            }
+            textField.addToPage(page, {
+                ...widgetPlacement(geom, normBBoxToUserRect(geom, field.bbox), normBBoxSize(geom, field.bbox)),
+                font,
+                borderWidth: 0,
+            });
+            if (field.value && !values.has(textField)) values.set(textField, field.value);
+        }
+    }
+
+    for (const [textField, value] of values) {
+        // Values captured across several text rows keep their line breaks
+        if (value.includes('\n')) textField.enableMultiline();
+        const dv = PDFHexString.fromText(value);
+        textField.acroField.dict.set(PDFName.of('DV'), dv);
+
+        if (Array.from(value).every((ch) => supported.has(ch.codePointAt(0) ?? 0))) {
+            textField.setText(value);
+        } else {
+            // Helvetica cannot draw it — store the value and let the reader build the appearance
+            textField.acroField.setValue(dv);
+            needsAppearances = true;
+        }
+    }
+
+    if (needsAppearances) form.acroForm.dict.set(PDFName.of('NeedAppearances'), doc.context.obj(true));
+}
@@ -0,0 +1,105 @@
+import { create } from 'zustand';
+import type { Annotation, FieldAnnotation } from '../types';
+import { useFieldStore } from './fieldStore';
+import { useAnnotationStore } from './annotationStore';
+
+/** Maximum number of undo steps kept */
+const MAX_HISTORY = 100;
+
+/**
+ * State of both stores at one point in time. Store updates always replace the
+ * Maps rather than mutating them, so keeping references is enough.
+ */
+interface Snapshot {
+    fields: Map<number, FieldAnnotation[]>;
+    annotations: Map<number, Annotation[]>;
+}
+
+interface HistoryState {
+    past: Snapshot[];
+    future: Snapshot[];
+    undo: () => void;
+    redo: () => void;
+    /** Forget all history, e.g. when another document is opened */
+    reset: () => void;
+}
+
+/** True while undo/redo writes to the stores, so those writes aren't recorded */
+let isRestoring = false;
+/** True for the rest of the current task once a change has been recorded */
+let isBatching = false;
+
+function currentSnapshot(): Snapshot {
+    return {
+        fields: useFieldStore.getState().fields,
+        annotations: useAnnotationStore.getState().annotations,
+    };
+}
+
+function restore(snapshot: Snapshot) {
+    isRestoring = true;
+    try {
+        useFieldStore.setState({ fields: snapshot.fields });
+        useAnnotationStore.setState({ annotations: snapshot.annotations });
+    } finally {
+        isRestoring = false;
+    }
+}
+
+/**
+ * Unified undo/redo history over `useFieldStore` and `useAnnotationStore`.
+ *
+ * Every change to either store is recorded automatically (see the
+ * subscriptions below) — adds, removals, relabels, moves and page clears all
+ * become undoable without the stores knowing about history.
+ */
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+    past: [],
+    future: [],
+
+    undo: () => {
+        const { past, future } = get();
+        const previous = past[past.length - 1];
+        if (!previous) return;
+        const current = currentSnapshot();
+        restore(previous);
+        set({ past: past.slice(0, -1), future: [...future, current] });
+    },
+
+    redo: () => {
+        const { past, future } = get();
+        const next = future[future.length - 1];
+        if (!next) return;
+        const current = currentSnapshot();
+        restore(next);
+        set({ past: [...past, current].slice(-MAX_HISTORY), future: future.slice(0, -1) });
+    },
+
+    reset: () => set({ past: [], future: [] }),
+}));
+
+/**
+ * Push the pre-change state. Changes made in the same synchronous task
+ * (e.g. a template creating several fields at once) collapse into one step.
+ */
+function record(before: Snapshot) {
+    if (isRestoring || isBatching) return;
+    isBatching = true;
+    queueMicrotask(() => {
+        isBatching = false;
+    });
+    useHistoryStore.setState((s) => ({
+        past: [...s.past, before].slice(-MAX_HISTORY),
+        future: [],
+    }));
+}
+
+useFieldStore.subscribe((state, prev) => {
+    if (state.fields === prev.fields) return;
+    record({ fields: prev.fields, annotations: useAnnotationStore.getState().annotations });
+});
+
+useAnnotationStore.subscribe((state, prev) => {
+    if (state.annotations === prev.annotations) return;
+    record({ fields: useFieldStore.getState().fields, annotations: prev.annotations });
+});
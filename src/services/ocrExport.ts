@@ -0,0 +1,187 @@
+import type { OCRBBox, OCRResult, PageDimensions } from '../types';
+import { layoutTree } from '../utils/textLayout';
+import { POINTS_PER_INCH } from './ocrService';
+
+/** Standard OCR formats offered by the OCR export */
+export type OCRExportFormat = 'hocr' | 'alto';
+
+/** One page to export: its OCR result plus the page size in points (scale 1) */
+export interface OCRExportPage {
+    result: OCRResult;
+    dimensions: PageDimensions;
+}
+
+/** Integer pixel box — [0,1] bboxes are scaled to the page size in px */
+interface PixelBox {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+}
+
+/** Name written as the producing software */
+const SOFTWARE_NAME = 'pdf-boundingbox';
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+/**
+ * Resolution boxes are written at: the DPI the page was recognized at, or
+ * 72 for embedded text — i.e. pixels of the OCR render, or PDF points.
+ */
+function pageResolution(result: OCRResult): number {
+    return result.dpi ?? POINTS_PER_INCH;
+}
+
+/** Page size in output units */
+function pageSize({ result, dimensions }: OCRExportPage): { width: number; height: number } {
+    const factor = pageResolution(result) / POINTS_PER_INCH;
+    return { width: Math.round(dimensions.width * factor), height: Math.round(dimensions.height * factor) };
+}
+
+function toPixels(bbox: OCRBBox, size: { width: number; height: number }): PixelBox {
+    return {
+        x0: Math.round(bbox.x0 * size.width),
+        y0: Math.round(bbox.y0 * size.height),
+        x1: Math.round(bbox.x1 * size.width),
+        y1: Math.round(bbox.y1 * size.height),
+    };
+}
+
+// ─── hOCR ────────────────────────────────────────────────────────────────────
+
+const hocrBBox = (b: PixelBox) => `bbox ${b.x0} ${b.y0} ${b.x1} ${b.y1}`;
+
+function hocrPage(page: OCRExportPage): string {
+    const { result } = page;
+    const size = pageSize(page);
+    const dpi = pageResolution(result);
+    const n = result.pageNumber;
+    const out: string[] = [];
+    let lineNo = 0;
+    let wordNo = 0;
+
+    const pageBox = { x0: 0, y0: 0, x1: size.width, y1: size.height };
+    out.push(`  <div class="ocr_page" id="page_${n}" title="${hocrBBox(pageBox)}; ppageno ${n - 1}; scan_res ${dpi} ${dpi}">`);
+    layoutTree(result).forEach((block, bi) => {
+        out.push(`   <div class="ocr_carea" id="block_${n}_${bi + 1}" title="${hocrBBox(toPixels(block.bbox, size))}">`);
+        block.paragraphs.forEach((par, pi) => {
+            out.push(`    <p class="ocr_par" id="par_${n}_${bi + 1}_${pi + 1}" title="${hocrBBox(toPixels(par.bbox, size))}">`);
+            for (const line of par.lines) {
+                lineNo++;
+                out.push(`     <span class="ocr_line" id="line_${n}_${lineNo}" title="${hocrBBox(toPixels(line.bbox, size))}">`);
+                for (const word of line.words) {
+                    out.push(
+                        `      <span class="ocrx_word" id="word_${n}_${++wordNo}" ` +
+                        `title="${hocrBBox(toPixels(word.bbox, size))}; x_wconf ${Math.round(word.confidence)}">` +
+                        `${escapeXml(word.text)}</span>`
+                    );
+                }
+                out.push('     </span>');
+            }
+            out.push('    </p>');
+        });
+        out.push('   </div>');
+    });
+    out.push('  </div>');
+    return out.join('\n');
+}
+
+/**
+ * hOCR 1.2 (HTML) for the given pages, keeping the engine's block /
+ * paragraph / line structure when known. Boxes are in pixels of each page's
+ * OCR render (`scan_res`); pages with embedded text use 72 DPI, i.e. points.
+ * Word confidences become `x_wconf` (0–100).
+ */
+export function toHOCR(pages: OCRExportPage[], documentName: string): string {
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+        '<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">',
+        ' <head>',
+        `  <title>${escapeXml(documentName)}</title>`,
+        '  <meta http-equiv="Content-Type" content="text/html;charset=utf-8"/>',
+        `  <meta name="ocr-system" content="${SOFTWARE_NAME}"/>`,
+        '  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word"/>',
+        ' </head>',
+        ' <body>',
+        ...pages.map(hocrPage),
+        ' </body>',
+        '</html>',
+        '',
+    ].join('\n');
+}
+
+// ─── ALTO ────────────────────────────────────────────────────────────────────
+
+const altoBox = (b: PixelBox) => `HPOS="${b.x0}" VPOS="${b.y0}" WIDTH="${b.x1 - b.x0}" HEIGHT="${b.y1 - b.y0}"`;
+
+function altoPage(page: OCRExportPage): string {
+    const { result } = page;
+    const size = pageSize(page);
+    const n = result.pageNumber;
+    const out: string[] = [];
+    let lineNo = 0;
+    let wordNo = 0;
+
+    const pageBox = { x0: 0, y0: 0, x1: size.width, y1: size.height };
+    out.push(`    <Page ID="page_${n}" PHYSICAL_IMG_NR="${n}" WIDTH="${size.width}" HEIGHT="${size.height}">`);
+    out.push(`      <PrintSpace ${altoBox(pageBox)}>`);
+    // ALTO has no paragraph level — a block's lines are listed directly
+    layoutTree(result).forEach((block, bi) => {
+        out.push(`        <TextBlock ID="block_${n}_${bi + 1}" ${altoBox(toPixels(block.bbox, size))}>`);
+        for (const line of block.paragraphs.flatMap((p) => p.lines)) {
+            out.push(`          <TextLine ID="line_${n}_${++lineNo}" ${altoBox(toPixels(line.bbox, size))}>`);
+            line.words.forEach((word, wi) => {
+                if (wi > 0) out.push('            <SP/>');
+                out.push(
+                    `            <String ID="string_${n}_${++wordNo}" CONTENT="${escapeXml(word.text)}" ` +
+                    `${altoBox(toPixels(word.bbox, size))} WC="${(word.confidence / 100).toFixed(2)}"/>`
+                );
+            });
+            out.push('          </TextLine>');
+        }
+        out.push('        </TextBlock>');
+    });
+    out.push('      </PrintSpace>');
+    out.push('    </Page>');
+    return out.join('\n');
+}
+
+/**
+ * ALTO v4 XML for the given pages. Coordinates use the `pixel` measurement
+ * unit at each page's OCR resolution (72 DPI — points — for embedded text);
+ * word confidences become `WC` (0–1).
+ */
+export function toALTO(pages: OCRExportPage[], documentName: string): string {
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+        '      xsi:schemaLocation="http://www.loc.gov/standards/alto/ns-v4# http://www.loc.gov/standards/alto/v4/alto-4-2.xsd">',
+        '  <Description>',
+        '    <MeasurementUnit>pixel</MeasurementUnit>',
+        '    <sourceImageInformation>',
+        `      <fileName>${escapeXml(documentName)}</fileName>`,
+        '    </sourceImageInformation>',
+        '    <OCRProcessing ID="ocr_0">',
+        '      <ocrProcessingStep>',
+        `        <processingDateTime>${new Date().toISOString()}</processingDateTime>`,
+        '        <processingSoftware>',
+        `          <softwareName>${SOFTWARE_NAME}</softwareName>`,
+        '        </processingSoftware>',
+        '      </ocrProcessingStep>',
+        '    </OCRProcessing>',
+        '  </Description>',
+        '  <Layout>',
+        ...pages.map(altoPage),
+        '  </Layout>',
+        '</alto>',
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,300 @@
+import type { OCRBBox, OCRResult, OCRTextRegion } from '../types';
+import { unionBBox } from '../utils/textLayout';
+
+/** Sidecar formats recognized by `parseOCRSidecar` */
+export type OCRSidecarFormat = 'hocr' | 'alto' | 'textract' | 'azure';
+
+/** A word read from a sidecar, before ids are assigned */
+interface SidecarWord {
+    text: string;
+    /** 0–100 */
+    confidence: number;
+    /** Normalized [0,1] to the page */
+    bbox: OCRBBox;
+    /** Anything identifying the word's text line — a change starts a new line in `fullText` */
+    line: unknown;
+    /** Same for the enclosing paragraph and block, where the format has them */
+    paragraph?: unknown;
+    block?: unknown;
+}
+
+/** Confidence assumed when a format leaves it out */
+const DEFAULT_CONFIDENCE = 100;
+
+/**
+ * Group words into regions by the container they came from, in first-seen
+ * order. The level is left out when any word lacks a container for it.
+ */
+function regionsBy(
+    pageNumber: number,
+    entries: SidecarWord[],
+    ids: string[],
+    key: 'line' | 'paragraph' | 'block',
+    prefix: string
+): OCRTextRegion[] | undefined {
+    const groups = new Map<unknown, number[]>();
+    for (const [i, entry] of entries.entries()) {
+        const container = entry[key];
+        if (container === undefined || container === null) return undefined;
+        groups.set(container, [...(groups.get(container) ?? []), i]);
+    }
+    return Array.from(groups.values(), (indices, i) => ({
+        id: `${pageNumber}-sc-${prefix}${i}`,
+        bbox: unionBBox(indices.map((j) => entries[j].bbox)),
+        wordIds: indices.map((j) => ids[j]),
+    }));
+}
+
+function toResult(pageNumber: number, entries: SidecarWord[]): OCRResult {
+    const kept = entries.filter((e) => e.text.trim());
+    const words = kept.map((e, i) => ({
+        id: `${pageNumber}-sc-${i}`,
+        text: e.text.trim(),
+        confidence: e.confidence,
+        bbox: e.bbox,
+    }));
+    const ids = words.map((w) => w.id);
+    const fullText = words
+        .map((w, i) => (i === 0 ? '' : kept[i].line !== kept[i - 1].line ? '\n' : ' ') + w.text)
+        .join('');
+
+    return {
+        pageNumber,
+        source: 'sidecar',
+        words,
+        lines: regionsBy(pageNumber, kept, ids, 'line', 'l'),
+        paragraphs: regionsBy(pageNumber, kept, ids, 'paragraph', 'p'),
+        blocks: regionsBy(pageNumber, kept, ids, 'block', 'b'),
+        fullText,
+    };
+}
+
+function normBox(x0: number, y0: number, x1: number, y1: number, width: number, height: number): OCRBBox {
+    return { x0: x0 / width, y0: y0 / height, x1: x1 / width, y1: y1 / height };
+}
+
+/** Bounding box of a flat [x, y, x, y, …] polygon */
+function polygonBox(points: number[], width: number, height: number): OCRBBox {
+    const xs = points.filter((_, i) => i % 2 === 0);
+    const ys = points.filter((_, i) => i % 2 === 1);
+    return normBox(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys), width, height);
+}
+
+// ─── hOCR ────────────────────────────────────────────────────────────────────
+
+/** `"bbox 0 0 10 20; x_wconf 93"` → { bbox: [0, 0, 10, 20], x_wconf: [93] } */
+function hocrProperties(title: string | null): Record<string, number[]> {
+    const props: Record<string, number[]> = {};
+    for (const part of (title ?? '').split(';')) {
+        const [key, ...values] = part.trim().split(/\s+/);
+        if (key) props[key] = values.map(Number);
+    }
+    return props;
+}
+
+const HOCR_LINE_CLASSES = '.ocr_line, .ocrx_line, .ocr_header, .ocr_caption, .ocr_textfloat';
+
+function parseHOCR(text: string): Map<number, OCRResult> {
+    const doc = new DOMParser().parseFromString(text, 'text/html');
+    const results = new Map<number, OCRResult>();
+
+    doc.querySelectorAll('.ocr_page').forEach((page, index) => {
+        const props = hocrProperties(page.getAttribute('title'));
+        const [, , width, height] = props.bbox ?? [];
+        if (!width || !height) return;
+        const pageNumber = props.ppageno ? props.ppageno[0] + 1 : index + 1;
+
+        const entries: SidecarWord[] = [];
+        page.querySelectorAll('.ocrx_word').forEach((word) => {
+            const wp = hocrProperties(word.getAttribute('title'));
+            if (!wp.bbox) return;
+            const [x0, y0, x1, y1] = wp.bbox;
+            entries.push({
+                text: word.textContent ?? '',
+                confidence: wp.x_wconf?.[0] ?? DEFAULT_CONFIDENCE,
+                bbox: normBox(x0, y0, x1, y1, width, height),
+                line: word.closest(HOCR_LINE_CLASSES),
+                paragraph: word.closest('.ocr_par'),
+                block: word.closest('.ocr_carea'),
+            });
+        });
+        results.set(pageNumber, toResult(pageNumber, entries));
+    });
+
+    return results;
+}
+
+// ─── ALTO ────────────────────────────────────────────────────────────────────
+
+function parseALTO(text: string): Map<number, OCRResult> {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('ALTO file is not well-formed XML');
+    const results = new Map<number, OCRResult>();
+    const num = (el: Element, name: string) => parseFloat(el.getAttribute(name) ?? '');
+
+    Array.from(doc.getElementsByTagNameNS('*', 'Page')).forEach((page, index) => {
+        // Some producers only size the PrintSpace
+        const space = page.getElementsByTagNameNS('*', 'PrintSpace')[0];
+        const width = num(page, 'WIDTH') || (space ? num(space, 'WIDTH') + num(space, 'HPOS') : NaN);
+        const height = num(page, 'HEIGHT') || (space ? num(space, 'HEIGHT') + num(space, 'VPOS') : NaN);
+        if (!width || !height) return;
+        const pageNumber = num(page, 'PHYSICAL_IMG_NR') || index + 1;
+
+        const entries = Array.from(page.getElementsByTagNameNS('*', 'String')).map((s): SidecarWord => {
+            const x = num(s, 'HPOS'), y = num(s, 'VPOS');
+            const wc = num(s, 'WC');
+            return {
+                text: s.getAttribute('CONTENT') ?? '',
+                confidence: Number.isNaN(wc) ? DEFAULT_CONFIDENCE : wc * 100,
+                bbox: normBox(x, y, x + num(s, 'WIDTH'), y + num(s, 'HEIGHT'), width, height),
+                line: s.parentElement,
+                block: s.parentElement?.parentElement,
+            };
+        });
+        results.set(pageNumber, toResult(pageNumber, entries));
+    });
+
+    return results;
+}
+
+// ─── Textract-style block JSON ──────────────────────────────────────────────
+
+interface TextractBlock {
+    Id?: string;
+    BlockType: string;
+    Text?: string;
+    Confidence?: number;
+    Page?: number;
+    Geometry?: { BoundingBox?: { Left: number; Top: number; Width: number; Height: number } };
+    Relationships?: { Type: string; Ids: string[] }[];
+}
+
+/**
+ * Accepts a single Textract response (`{ Blocks: [...] }`) or an array of
+ * them, as returned page-by-page by the asynchronous APIs. Boxes are already
+ * normalized; every WORD block becomes a word.
+ */
+function parseTextract(json: unknown): Map<number, OCRResult> {
+    const responses = (Array.isArray(json) ? json : [json]) as { Blocks?: TextractBlock[] }[];
+    const blocks = responses.flatMap((r) => r.Blocks ?? []);
+
+    const lineOf = new Map<string, string>();
+    for (const block of blocks) {
+        if (block.BlockType !== 'LINE' || !block.Id) continue;
+        for (const rel of block.Relationships ?? []) {
+            if (rel.Type === 'CHILD') rel.Ids.forEach((id) => lineOf.set(id, block.Id!));
+        }
+    }
+
+    const byPage = new Map<number, SidecarWord[]>();
+    for (const block of blocks) {
+        const box = block.Geometry?.BoundingBox;
+        if (block.BlockType !== 'WORD' || !box) continue;
+        const pageNumber = block.Page ?? 1;
+        const entries = byPage.get(pageNumber) ?? [];
+        entries.push({
+            text: block.Text ?? '',
+            confidence: block.Confidence ?? DEFAULT_CONFIDENCE,
+            bbox: { x0: box.Left, y0: box.Top, x1: box.Left + box.Width, y1: box.Top + box.Height },
+            line: block.Id ? lineOf.get(block.Id) : undefined,
+        });
+        byPage.set(pageNumber, entries);
+    }
+
+    return new Map(Array.from(byPage, ([n, entries]) => [n, toResult(n, entries)]));
+}
+
+// ─── Azure Read / Document Intelligence JSON ─────────────────────────────────
+
+interface AzureReadPage {
+    page: number;
+    width: number;
+    height: number;
+    lines: { words: { text: string; boundingBox: number[]; confidence?: number }[] }[];
+}
+
+interface AzureDocumentPage {
+    pageNumber: number;
+    width: number;
+    height: number;
+    words?: { content: string; polygon: number[]; confidence?: number; span: { offset: number } }[];
+    lines?: { spans: { offset: number; length: number }[] }[];
+}
+
+/**
+ * Computer Vision Read v3 (`analyzeResult.readResults`) and Document
+ * Intelligence (`analyzeResult.pages`) layouts. Polygons are reduced to
+ * their bounding boxes; confidences are 0–1.
+ */
+function parseAzure(json: { analyzeResult: { readResults?: AzureReadPage[]; pages?: AzureDocumentPage[] } }): Map<number, OCRResult> {
+    const results = new Map<number, OCRResult>();
+    const { readResults, pages } = json.analyzeResult;
+
+    for (const page of readResults ?? []) {
+        const entries = page.lines.flatMap((line) =>
+            line.words.map((w): SidecarWord => ({
+                text: w.text,
+                confidence: w.confidence !== undefined ? w.confidence * 100 : DEFAULT_CONFIDENCE,
+                bbox: polygonBox(w.boundingBox, page.width, page.height),
+                line,
+            }))
+        );
+        results.set(page.page, toResult(page.page, entries));
+    }
+
+    for (const page of pages ?? []) {
+        /** Index of the line whose spans cover the word; a word in none is a line of its own */
+        const lineAt = (offset: number, wordIndex: number) => {
+            const index = page.lines?.findIndex((l) => l.spans.some((s) => offset >= s.offset && offset < s.offset + s.length));
+            return index === -1 ? `word-${wordIndex}` : index;
+        };
+        const entries = (page.words ?? []).map((w, i): SidecarWord => ({
+            text: w.content,
+            confidence: w.confidence !== undefined ? w.confidence * 100 : DEFAULT_CONFIDENCE,
+            bbox: polygonBox(w.polygon, page.width, page.height),
+            line: lineAt(w.span.offset, i),
+        }));
+        results.set(page.pageNumber, toResult(page.pageNumber, entries));
+    }
+
+    return results;
+}
+
+// ─── Entry point ─────────────────────────────────────────────────────────────
+
+/** Guess the sidecar format from its content, or null when unrecognized */
+export function detectOCRFormat(text: string): OCRSidecarFormat | null {
+    const head = text.trimStart();
+    if (head.startsWith('{') || head.startsWith('[')) {
+        if (/"analyzeResult"/.test(head)) return 'azure';
+        if (/"Blocks"/.test(head)) return 'textract';
+        return null;
+    }
+    if (/<alto[\s>]/.test(head)) return 'alto';
+    if (/ocr_page/.test(head)) return 'hocr';
+    return null;
+}
+
+/**
+ * Convert an OCR sidecar produced by an external engine into per-page
+ * results, exactly like `recognizePage` output after normalization: boxes
+ * are [0,1] relative to the page and confidences 0–100.
+ *
+ * Sidecars are assumed to describe the page as displayed (the same image
+ * the engine was given). Throws an Error for unrecognized or broken files.
+ */
+export function parseOCRSidecar(text: string): Map<number, OCRResult> {
+    const format = detectOCRFormat(text);
+    switch (format) {
+        case 'hocr':
+            return parseHOCR(text);
+        case 'alto':
+            return parseALTO(text);
+        case 'textract':
+            return parseTextract(JSON.parse(text));
+        case 'azure':
+            return parseAzure(JSON.parse(text));
+        default:
+            throw new Error('Unrecognized OCR file: expected hOCR, ALTO XML, Textract or Azure JSON');
+    }
+}
@@ -1,55 +1,143 @@
 import { createWorker, Worker } from 'tesseract.js';
-import type { OCRResult, OCRWord } from '../types';
+import type { OCRBBox, OCRChar, OCRResult, OCRTextRegion, OCRWord } from '../types';
+import { renderPageToCanvas, type PdfRenderablePage } from './pageRenderer';
+import { TESSERACT_CORE_URL, TESSERACT_LANG_URL, TESSERACT_WORKER_URL } from '../config';
+
+/** PDF user space units per inch */
+export const POINTS_PER_INCH = 72;
+
+/** Default OCR render resolution — Tesseract is tuned for ~300 DPI scans */
+export const DEFAULT_OCR_DPI = 300;
+
+/**
+ * Tesseract language codes offered in the picker — `+` combines languages.
+ * Each single language must also be listed in `OCR_LANGS` in vite.config.ts
+ * so its traineddata is bundled.
+ */
+export const OCR_LANGUAGES: { code: string; label: string }[] = [
+    { code: 'eng', label: 'English' },
+    { code: 'deu', label: 'German' },
+    { code: 'fra', label: 'French' },
+    { code: 'spa', label: 'Spanish' },
+    { code: 'ita', label: 'Italian' },
+    { code: 'nld', label: 'Dutch' },
+    { code: 'por', label: 'Portuguese' },
+    { code: 'deu+eng', label: 'German + English' },
+    { code: 'fra+eng', label: 'French + English' },
+    { code: 'eng+spa', label: 'English + Spanish' },
+];
+
+export const DEFAULT_OCR_LANGUAGE = 'eng';
 
 let workerInstance: Worker | null = null;
 let initPromise: Promise<Worker> | null = null;
+/** Receives recognition progress (0–1) for the page currently being recognized */
+let progressListener: ((progress: number) => void) | null = null;
+/** Language(s) requested for the next recognition */
+let selectedLanguage = DEFAULT_OCR_LANGUAGE;
+/** Language(s) the worker is currently initialized with */
+let workerLanguage: string | null = null;
 
 /**
- * Initialize (and cache) the Tesseract.js worker.
- * Safe to call multiple times — only creates one worker.
+ * Initialize (and cache) the Tesseract.js worker for the selected language.
+ * Safe to call multiple times — only creates one worker, and re-initializes
+ * it in place when the language has changed since.
  */
 export async function initOCR(): Promise<Worker> {
-    if (workerInstance) return workerInstance;
-    if (initPromise) return initPromise;
-
-    initPromise = (async () => {
-        const worker = await createWorker('eng', 1, {
-            logger: (m) => {
-                if (m.status === 'recognizing text') {
-                    console.debug(`[OCR] ${Math.round(m.progress * 100)}%`);
-                }
-            },
-        });
-        workerInstance = worker;
-        return worker;
-    })();
+    if (workerInstance && workerLanguage === selectedLanguage) return workerInstance;
 
-    return initPromise;
+    if (!initPromise) {
+        const language = selectedLanguage;
+        initPromise = (async () => {
+            const worker = await createWorker(language, 1, {
+                // Self-hosted worker, WASM core and traineddata — no CDN access needed
+                workerPath: TESSERACT_WORKER_URL,
+                corePath: TESSERACT_CORE_URL,
+                langPath: TESSERACT_LANG_URL,
+                logger: (m) => {
+                    if (m.status === 'recognizing text') {
+                        console.debug(`[OCR] ${Math.round(m.progress * 100)}%`);
+                        progressListener?.(m.progress);
+                    }
+                },
+            });
+            workerInstance = worker;
+            workerLanguage = language;
+            return worker;
+        })();
+    }
+
+    const worker = await initPromise;
+    if (workerLanguage !== selectedLanguage) {
+        const language = selectedLanguage;
+        await worker.reinitialize(language);
+        workerLanguage = language;
+    }
+    return worker;
+}
+
+/**
+ * Select the OCR language(s), e.g. `deu` or `deu+eng`. A running worker is
+ * re-initialized right away; otherwise the choice applies on first use.
+ */
+export async function setOCRLanguage(language: string): Promise<void> {
+    selectedLanguage = language;
+    if (workerInstance) await initOCR();
 }
 
 /**
  * Run OCR on a canvas element or ImageData and return structured OCRResult.
+ * Bounding boxes are in source pixels — see `normalizeOCRResult`.
  * @param source - The rendered PDF page canvas
  * @param pageNumber - 1-based page index
+ * @param onProgress - Optional recognition progress callback (0–1)
  */
 export async function recognizePage(
     source: HTMLCanvasElement | ImageData,
-    pageNumber: number
+    pageNumber: number,
+    onProgress?: (progress: number) => void
 ): Promise<OCRResult> {
     const worker = await initOCR();
+    // The language may be switched while this page is being recognized
+    const language = workerLanguage ?? selectedLanguage;
 
-    const result = await worker.recognize(source as HTMLCanvasElement);
+    progressListener = onProgress ?? null;
+    let result: Awaited<ReturnType<Worker['recognize']>>;
+    try {
+        result = await worker.recognize(source as HTMLCanvasElement);
+    } finally {
+        progressListener = null;
+    }
 
     const words: OCRWord[] = [];
+    const lines: OCRTextRegion[] = [];
+    const paragraphs: OCRTextRegion[] = [];
+    const blocks: OCRTextRegion[] = [];
     let wordIndex = 0;
 
+    /** Record a region (bbox in source pixels) if it ended up containing any words */
+    const addRegion = (list: OCRTextRegion[], prefix: string, bbox: OCRBBox, wordIds: string[]) => {
+        if (wordIds.length === 0) return;
+        list.push({ id: `${pageNumber}-${prefix}${list.length}`, bbox: { ...bbox }, wordIds });
+    };
+
     for (const block of result.data.blocks ?? []) {
+        const blockWordIds: string[] = [];
         for (const para of block.paragraphs ?? []) {
+            const paraWordIds: string[] = [];
             for (const line of para.lines ?? []) {
+                const lineWordIds: string[] = [];
                 for (const word of line.words ?? []) {
                     if (!word.text.trim()) continue;
+                    const id = `${pageNumber}-${wordIndex++}`;
+                    lineWordIds.push(id);
+                    // Symbols are only usable when they spell out the word exactly
+                    const symbols = word.symbols ?? [];
+                    const chars: OCRChar[] | undefined = symbols.map((s) => s.text).join('') === word.text
+                        ? symbols.map((s) => ({ text: s.text, bbox: { ...s.bbox } }))
+                        : undefined;
                     words.push({
-                        id: `${pageNumber}-${wordIndex++}`,
+                        id,
                         text: word.text,
                         confidence: word.confidence,
                         bbox: {
@@ -58,26 +146,89 @@ export async function recognizePage(
                             x1: word.bbox.x1,
                             y1: word.bbox.y1,
                         },
+                        chars,
+                        bold: word.is_bold || undefined,
                     });
                 }
+                addRegion(lines, 'l', line.bbox, lineWordIds);
+                paraWordIds.push(...lineWordIds);
             }
+            addRegion(paragraphs, 'p', para.bbox, paraWordIds);
+            blockWordIds.push(...paraWordIds);
         }
+        addRegion(blocks, 'b', block.bbox, blockWordIds);
     }
 
     return {
         pageNumber,
+        source: 'tesseract',
         words,
+        lines,
+        paragraphs,
+        blocks,
         fullText: result.data.text,
+        language,
     };
 }
 
+/**
+ * Normalize pixel bbox values to [0, 1] relative to the recognized image size.
+ * This makes BoundingBoxOverlay zoom-invariant and DPR-independent.
+ */
+export function normalizeOCRResult(result: OCRResult, width: number, height: number): OCRResult {
+    const scale = (bbox: OCRBBox): OCRBBox => ({
+        x0: bbox.x0 / width,
+        y0: bbox.y0 / height,
+        x1: bbox.x1 / width,
+        y1: bbox.y1 / height,
+    });
+    const scaleRegions = (regions?: OCRTextRegion[]) => regions?.map((r) => ({ ...r, bbox: scale(r.bbox) }));
+
+    return {
+        ...result,
+        words: result.words.map((w) => ({
+            ...w,
+            bbox: scale(w.bbox),
+            chars: w.chars?.map((c) => ({ ...c, bbox: scale(c.bbox) })),
+        })),
+        lines: scaleRegions(result.lines),
+        paragraphs: scaleRegions(result.paragraphs),
+        blocks: scaleRegions(result.blocks),
+    };
+}
+
+/**
+ * Render a pdf.js page off-screen at `dpi` and OCR it. The result does not
+ * depend on the on-screen zoom; boxes are normalized to [0, 1] and the DPI
+ * is recorded on the result.
+ */
+export async function recognizePdfPage(
+    page: PdfRenderablePage,
+    pageNumber: number,
+    dpi = DEFAULT_OCR_DPI,
+    onProgress?: (progress: number) => void
+): Promise<OCRResult> {
+    const canvas = await renderPageToCanvas(page, dpi / POINTS_PER_INCH);
+    try {
+        const result = await recognizePage(canvas, pageNumber, onProgress);
+        return { ...normalizeOCRResult(result, canvas.width, canvas.height), dpi };
+    } finally {
+        // Release the (large) backing store right away
+        canvas.width = 0;
+        canvas.height = 0;
+    }
+}
+
 /**
  * Terminate the shared Tesseract worker. Call on app unmount.
  */
 export async function terminateOCR(): Promise<void> {
     if (workerInstance) {
-        await workerInstance.terminate();
+        // Detach first so OCR started while terminating gets a fresh worker
+        const worker = workerInstance;
         workerInstance = null;
+        workerLanguage = null;
         initPromise = null;
+        await worker.terminate();
     }
 }
@@ -0,0 +1,49 @@
+import type { PageDimensions } from '../types';
+
+/**
+ * Minimal interfaces for the pdf.js document / page proxies — avoids importing
+ * the full pdfjs-dist types which can conflict with the version bundled by
+ * react-pdf (same approach as `pdfTextExtractor.ts`).
+ */
+export interface PdfRenderablePage {
+    getViewport(params: { scale: number }): { width: number; height: number };
+    render(params: {
+        canvasContext: CanvasRenderingContext2D;
+        viewport: unknown;
+    }): { promise: Promise<void> };
+}
+
+export interface PdfDocumentProxy {
+    numPages: number;
+    getPage(pageNumber: number): Promise<unknown>;
+}
+
+/**
+ * Render a page into a new off-screen canvas at `scale` (1 = 72 DPI).
+ * Used for OCR so recognition does not depend on what is on screen.
+ */
+export async function renderPageToCanvas(
+    page: PdfRenderablePage,
+    scale: number
+): Promise<HTMLCanvasElement> {
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context unavailable');
+    // Tesseract does best on an opaque white background
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    return canvas;
+}
+
+/** Displayed size of a page in points (scale 1, after /Rotate) */
+export async function getPageDimensions(pdf: PdfDocumentProxy, pageNumber: number): Promise<PageDimensions> {
+    const page = (await pdf.getPage(pageNumber)) as PdfRenderablePage;
+    const { width, height } = page.getViewport({ scale: 1 });
+    return { width, height };
+}
@@ -0,0 +1,228 @@
+import type { Annotation, OCRBBox, PdfImportRecord } from '../types';
+import type { PdfDocumentProxy } from './pageRenderer';
+
+/**
+ * Subset of pdf.js annotation data (`PDFPageProxy.getAnnotations()`) read
+ * here — kept local for the same reason as `pdfTextExtractor.ts`.
+ */
+interface PdfAnnotationData {
+    /** Object reference (`12R`, `12R1` for generation 1), or `annot_…` for annotations stored inline */
+    id: string;
+    subtype: string;
+    /** [x1, y1, x2, y2] in PDF user space */
+    rect: number[];
+    color: ArrayLike<number> | null;
+    creationDate?: string | null;
+    modificationDate?: string | null;
+    contentsObj?: { str: string };
+    /** Eight user-space numbers per highlighted quadrilateral */
+    quadPoints?: ArrayLike<number> | null;
+    /** Flat [x, y, x, y, …] user-space points per stroke */
+    inkLists?: ArrayLike<number>[];
+    borderStyle?: { width: number };
+    /** /F bits — pdf.js only turns them into `hidden` for widgets */
+    annotationFlags?: number;
+    hidden?: boolean;
+    // Widgets only
+    fieldType?: string | null;
+    fieldName?: string;
+    fieldValue?: string | string[] | null;
+}
+
+interface PdfViewport {
+    width: number;
+    height: number;
+    convertToViewportPoint(x: number, y: number): number[];
+    convertToViewportRectangle(rect: number[]): number[];
+}
+
+interface PdfAnnotatedPage {
+    getViewport(params: { scale: number }): PdfViewport;
+    getAnnotations(): Promise<PdfAnnotationData[]>;
+}
+
+/** A text field widget read from the PDF, ready for `addFieldRect` */
+export interface ImportedFormField {
+    /** Fully qualified field name — shared by all widgets of the field */
+    name: string;
+    value: string;
+    bbox: OCRBBox;
+}
+
+export interface ImportedPageAnnotations {
+    annotations: Annotation[];
+    /** pdf.js ids of the PDF annotations `annotations` were read from */
+    annotationRefs: string[];
+    fields: ImportedFormField[];
+    /** Text fields with a widget here that cannot be imported (hidden) */
+    skippedFieldNames: string[];
+}
+
+export interface ImportedDocumentAnnotations {
+    /** Pages with something to import */
+    pages: Map<number, ImportedPageAnnotations>;
+    /** Everything imported, for exports to replace */
+    record: PdfImportRecord;
+}
+
+/** /F bits that keep an annotation off screen: Hidden, NoView */
+const HIDDEN_FLAGS = 2 | 32;
+
+const isHidden = (item: PdfAnnotationData) => !!item.hidden || ((item.annotationFlags ?? 0) & HIDDEN_FLAGS) !== 0;
+
+/** Annotations referenced from /Annots have ids like `12R`; inline ones cannot be found again on export */
+const isObjectRef = (id: string) => /^\d+R\d*$/.test(id);
+
+/** Color used when an annotation has no /C entry */
+const DEFAULT_COLOR = '#ffd400';
+
+/** pdf.js color bytes → '#rrggbb' */
+function toHex(color: ArrayLike<number> | null): string {
+    if (!color || color.length < 3) return DEFAULT_COLOR;
+    return '#' + Array.from(color).slice(0, 3).map((c) => c.toString(16).padStart(2, '0')).join('');
+}
+
+/** 'D:YYYYMMDDHHmmSSOHH'mm' → epoch ms, or null when missing or malformed */
+function parsePdfDate(value: string | null | undefined): number | null {
+    const m = value?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/);
+    if (!m) return null;
+    const [, y, mo = '01', d = '01', h = '00', mi = '00', s = '00', tz, tzh = '00', tzm = '00'] = m;
+    let ms = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+    const offset = (+tzh * 60 + +tzm) * 60_000;
+    if (tz === '+') ms -= offset;
+    else if (tz === '-') ms += offset;
+    return Number.isNaN(ms) ? null : ms;
+}
+
+function widgetValue(value: PdfAnnotationData['fieldValue']): string {
+    if (Array.isArray(value)) return value.join(', ');
+    return value ?? '';
+}
+
+/**
+ * Read a page's existing annotations through pdf.js and map them into the
+ * app's model:
+ * - Square, single-quad Highlight and Ink → rectangle / highlight / freehand markup
+ * - Text (sticky notes) → comments
+ * - text field widgets → labeled fields named after the form field, holding
+ *   its current value
+ *
+ * Markup coordinates use the same unit as the drawing layers (displayed page
+ * points at scale 1, top-left origin); field bboxes are normalized [0,1].
+ * Only what exports can write back unchanged is imported: FreeText, multi-line
+ * highlights, inline annotations, checkboxes, radio buttons, choice lists,
+ * signatures, links and hidden annotations stay in the PDF as they are.
+ */
+export async function importPageAnnotations(
+    page: PdfAnnotatedPage,
+    pageNumber: number
+): Promise<ImportedPageAnnotations> {
+    const viewport = page.getViewport({ scale: 1 });
+    const items = await page.getAnnotations();
+    const annotations: Annotation[] = [];
+    const annotationRefs: string[] = [];
+    const fields: ImportedFormField[] = [];
+    const skippedFieldNames: string[] = [];
+
+    for (const item of items) {
+        if (item.subtype === 'Widget' && item.fieldType === 'Tx' && item.fieldName && (isHidden(item) || !item.rect)) {
+            skippedFieldNames.push(item.fieldName);
+            continue;
+        }
+        if (isHidden(item) || !item.rect) continue;
+        const [ax, ay, bx, by] = viewport.convertToViewportRectangle(item.rect);
+        const bbox = { x0: Math.min(ax, bx), y0: Math.min(ay, by), x1: Math.max(ax, bx), y1: Math.max(ay, by) };
+
+        if (item.subtype === 'Widget') {
+            if (!item.fieldName || item.fieldType !== 'Tx') continue;
+            fields.push({
+                name: item.fieldName,
+                value: widgetValue(item.fieldValue),
+                bbox: {
+                    x0: bbox.x0 / viewport.width,
+                    y0: bbox.y0 / viewport.height,
+                    x1: bbox.x1 / viewport.width,
+                    y1: bbox.y1 / viewport.height,
+                },
+            });
+            continue;
+        }
+        if (!isObjectRef(item.id)) continue;
+
+        const base = {
+            id: crypto.randomUUID(),
+            pageNumber,
+            color: toHex(item.color),
+            createdAt: parsePdfDate(item.creationDate) ?? parsePdfDate(item.modificationDate) ?? Date.now(),
+        };
+        const contents = item.contentsObj?.str ?? '';
+        const count = annotations.length;
+
+        switch (item.subtype) {
+            case 'Square':
+                annotations.push({ ...base, type: 'rectangle', bbox });
+                break;
+            case 'Highlight':
+                // One box cannot stand in for several highlighted lines
+                if ((item.quadPoints?.length ?? 0) > 8) break;
+                annotations.push({ ...base, type: 'highlight', text: contents, bbox });
+                break;
+            case 'Ink': {
+                const path = (item.inkLists ?? []).flatMap((stroke) => {
+                    const commands: (string | number)[][] = [];
+                    for (let i = 0; i + 1 < stroke.length; i += 2) {
+                        const [x, y] = viewport.convertToViewportPoint(stroke[i], stroke[i + 1]);
+                        commands.push([i === 0 ? 'M' : 'L', x, y]);
+                    }
+                    return commands;
+                });
+                if (path.length === 0) break;
+                const fabricJson = JSON.stringify({
+                    type: 'path',
+                    path,
+                    fill: null,
+                    stroke: base.color,
+                    strokeWidth: item.borderStyle?.width || 1,
+                });
+                annotations.push({ ...base, type: 'freehand', fabricJson, scale: 1 });
+                break;
+            }
+            case 'Text':
+                annotations.push({ ...base, type: 'comment', text: contents, position: { x: bbox.x0, y: bbox.y0 } });
+                break;
+        }
+        if (annotations.length > count) annotationRefs.push(item.id);
+    }
+
+    return { annotations, annotationRefs, fields, skippedFieldNames };
+}
+
+/**
+ * Import the annotations and form widgets of every page, in page order.
+ * A text field is only imported when all of its widgets are, on whichever
+ * pages they sit, since exports replace the whole field. Pages with nothing
+ * to import are left out of the result.
+ */
+export async function importDocumentAnnotations(pdf: PdfDocumentProxy): Promise<ImportedDocumentAnnotations> {
+    const all: ImportedPageAnnotations[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = (await pdf.getPage(pageNumber)) as PdfAnnotatedPage;
+        all.push(await importPageAnnotations(page, pageNumber));
+    }
+
+    const skipped = new Set(all.flatMap((page) => page.skippedFieldNames));
+    const pages = new Map<number, ImportedPageAnnotations>();
+    all.forEach((imported, i) => {
+        const fields = imported.fields.filter((field) => !skipped.has(field.name));
+        if (imported.annotations.length > 0 || fields.length > 0) pages.set(i + 1, { ...imported, fields });
+    });
+
+    const pageList = Array.from(pages.values());
+    return {
+        pages,
+        record: {
+            annotationRefs: pageList.flatMap((page) => page.annotationRefs),
+            fieldNames: Array.from(new Set(pageList.flatMap((page) => page.fields.map((field) => field.name)))),
+        },
+    };
+}
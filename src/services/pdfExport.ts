@@ -1,54 +1,131 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
-import type { OCRResult } from '../types';
+import {
+    PDFDocument,
+    PDFFont,
+    StandardFonts,
+    TextRenderingMode,
+    beginText,
+    endText,
+    popGraphicsState,
+    pushGraphicsState,
+    setFontAndSize,
+    setTextMatrix,
+    setTextRenderingMode,
+    showText,
+} from 'pdf-lib';
+import type { Annotation, FieldAnnotation, OCRResult, PdfImportRecord } from '../types';
+import { downloadFile } from '../utils/download';
+import { writeAnnotations } from './annotationExport';
+import { writeFormFields } from './formExport';
+import { displayAxes, getPageGeometry, normBBoxSize, normToUser } from './pdfGeometry';
+
+export interface PDFExportOptions {
+    /** Map of pageNumber → OCRResult, embedded as an invisible text layer */
+    ocrResults: Map<number, OCRResult>;
+    /** Pages whose words were read from the PDF's own text — never given a second text layer */
+    digitizedPages?: Set<number>;
+    /** Markup written as native PDF annotations; omitted → none */
+    annotations?: Map<number, Annotation[]>;
+    /** Labeled fields turned into fillable AcroForm text fields; omitted → none */
+    formFields?: Map<number, FieldAnnotation[]>;
+    /** The PDF's own annotations and fields imported on open, replaced by the exported ones; omitted → none */
+    pdfImport?: PdfImportRecord;
+}
+
+/** Replace characters the (WinAnsi) standard font cannot encode */
+function encodable(font: PDFFont, text: string): string {
+    const supported = new Set(font.getCharacterSet());
+    return Array.from(text)
+        .map((ch) => (supported.has(ch.codePointAt(0) ?? 0) ? ch : '?'))
+        .join('');
+}
 
 /**
- * Embed invisible (white, size-0) text at OCR bounding box positions
- * so the exported PDF becomes text-searchable.
+ * Embed an invisible text layer at the OCR word positions so the exported
+ * PDF becomes selectable and searchable over the scanned glyphs.
  *
- * @param pdfBytes - Original PDF as Uint8Array or ArrayBuffer
- * @param ocrResults - Map of pageNumber → OCRResult
- * @returns Modified PDF bytes
+ * Word boxes are normalized [0,1] to the *displayed* page, so each one is
+ * mapped back through the page's CropBox and /Rotate into user space. Every
+ * word is drawn in text render mode 3 (invisible), sized to the box height
+ * and horizontally scaled to exactly fill the box width.
+ *
+ * Pages whose words came from the PDF's own text layer (`extractPageText`)
+ * already have real text and are skipped. Results saved before sources were
+ * recorded are recognized by their page being in `digitizedPages`.
  */
-export async function embedOCRText(
-    pdfBytes: Uint8Array | ArrayBuffer,
-    ocrResults: Map<number, OCRResult>
-): Promise<Uint8Array> {
-    const pdfDoc = await PDFDocument.load(pdfBytes);
+async function embedOCRText(
+    pdfDoc: PDFDocument,
+    ocrResults: Map<number, OCRResult>,
+    digitizedPages: Set<number>
+): Promise<void> {
     const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
 
+    // Font metrics at size 1, used to fit each word into its box
+    const fullHeight = font.heightAtSize(1);
+    const descent = fullHeight - font.heightAtSize(1, { descender: false });
+
     const pages = pdfDoc.getPages();
 
     for (const [pageNumber, ocrResult] of ocrResults.entries()) {
+        if (ocrResult.source === 'embedded' || digitizedPages.has(pageNumber)) continue;
         const pageIndex = pageNumber - 1;
         if (pageIndex < 0 || pageIndex >= pages.length) continue;
 
         const page = pages[pageIndex];
-        const { height: pageHeight } = page.getSize();
+        const geom = getPageGeometry(page);
+        const { right, up } = displayAxes(geom.rotation);
+        const fontKey = page.node.newFontDictionary(font.name, font.ref);
+
+        page.pushOperators(
+            pushGraphicsState(),
+            beginText(),
+            setTextRenderingMode(TextRenderingMode.Invisible),
+            setFontAndSize(fontKey, 1)
+        );
 
         for (const word of ocrResult.words) {
-            if (!word.text.trim()) continue;
+            const text = encodable(font, word.text.trim());
+            if (!text) continue;
 
-            // Tesseract bbox is in image-space (top-left origin).
-            // pdf-lib uses bottom-left origin, so we flip the y axis.
-            const wordHeight = word.bbox.y1 - word.bbox.y0;
-            const x = word.bbox.x0;
-            // Convert top-left y to bottom-left y
-            const y = pageHeight - word.bbox.y1;
+            const { width: boxW, height: boxH } = normBBoxSize(geom, word.bbox);
+            const textW = font.widthOfTextAtSize(text, 1);
+            if (boxW <= 0 || boxH <= 0 || textW <= 0) continue;
 
-            const fontSize = Math.max(wordHeight, 1);
+            const fontSize = boxH / fullHeight;
+            const hScale = boxW / textW;
+            // Baseline sits one descent above the bottom-left corner of the box
+            const corner = normToUser(geom, word.bbox.x0, word.bbox.y1);
+            const originX = corner.x + up.x * descent * fontSize;
+            const originY = corner.y + up.y * descent * fontSize;
 
-            page.drawText(word.text, {
-                x,
-                y,
-                size: fontSize,
-                font,
-                // Draw in white / fully transparent to keep it invisible
-                color: rgb(1, 1, 1),
-                opacity: 0,
-            });
+            page.pushOperators(
+                setTextMatrix(
+                    right.x * hScale, right.y * hScale,
+                    up.x * fontSize, up.y * fontSize,
+                    originX, originY
+                ),
+                showText(font.encodeText(text))
+            );
         }
+
+        page.pushOperators(endText(), popGraphicsState());
     }
+}
 
+/**
+ * Produce the exported PDF: the original document plus an OCR text layer
+ * and, when given, the markup annotations and fillable form fields.
+ *
+ * @param pdfBytes - Original PDF as Uint8Array or ArrayBuffer
+ * @returns Modified PDF bytes
+ */
+export async function exportPDF(
+    pdfBytes: Uint8Array | ArrayBuffer,
+    options: PDFExportOptions
+): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    await embedOCRText(pdfDoc, options.ocrResults, options.digitizedPages ?? new Set());
+    if (options.annotations) writeAnnotations(pdfDoc, options.annotations, options.pdfImport?.annotationRefs);
+    if (options.formFields) await writeFormFields(pdfDoc, options.formFields, options.pdfImport?.fieldNames);
     return pdfDoc.save();
 }
 
@@ -56,11 +133,5 @@ export async function embedOCRText(
  * Trigger a browser download of a PDF byte array.
  */
 export function downloadPDF(bytes: Uint8Array, filename = 'annotated.pdf'): void {
-    const blob = new Blob([bytes as any], { type: 'application/pdf' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(bytes as any, filename, 'application/pdf');
 }
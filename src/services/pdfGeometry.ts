@@ -0,0 +1,126 @@
+import type { PDFPage } from 'pdf-lib';
+import type { OCRBBox } from '../types';
+
+/**
+ * The visible page region and orientation that pdf.js renders — our
+ * normalized [0,1] boxes are relative to exactly this area.
+ */
+export interface PageGeometry {
+    /** CropBox origin and size in PDF user space */
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** /Rotate, normalized to 0, 90, 180 or 270 (clockwise) */
+    rotation: number;
+}
+
+export interface Vec2 {
+    x: number;
+    y: number;
+}
+
+/** Axis-aligned rectangle in PDF user space (bottom-left origin) */
+export interface UserRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export function getPageGeometry(page: PDFPage): PageGeometry {
+    const crop = page.getCropBox();
+    const rotation = (((page.getRotation().angle % 360) + 360) % 360);
+    return {
+        x: crop.x,
+        y: crop.y,
+        width: crop.width,
+        height: crop.height,
+        // Non-multiples of 90 are invalid per the spec; snap like viewers do
+        rotation: Math.round(rotation / 90) * 90 % 360,
+    };
+}
+
+/**
+ * Map a normalized point on the *displayed* page (top-left origin, after
+ * /Rotate) to PDF user space (bottom-left origin of the unrotated page).
+ */
+export function normToUser(geom: PageGeometry, u: number, v: number): Vec2 {
+    const { x, y, width: w, height: h } = geom;
+    switch (geom.rotation) {
+        case 90:
+            // Displayed width spans the page height and vice versa
+            return { x: x + v * w, y: y + u * h };
+        case 180:
+            return { x: x + w - u * w, y: y + v * h };
+        case 270:
+            return { x: x + w - v * w, y: y + h - u * h };
+        default:
+            return { x: x + u * w, y: y + h - v * h };
+    }
+}
+
+/**
+ * Inverse of `normToUser`: PDF user space → normalized displayed-page point.
+ */
+export function userToNorm(geom: PageGeometry, px: number, py: number): Vec2 {
+    const { x, y, width: w, height: h } = geom;
+    const dx = (px - x) / w;
+    const dy = (py - y) / h;
+    switch (geom.rotation) {
+        case 90:
+            return { x: dy, y: dx };
+        case 180:
+            return { x: 1 - dx, y: dy };
+        case 270:
+            return { x: 1 - dy, y: 1 - dx };
+        default:
+            return { x: dx, y: 1 - dy };
+    }
+}
+
+/** Axis-aligned user-space rectangle covering a normalized displayed-page bbox */
+export function normBBoxToUserRect(geom: PageGeometry, bbox: OCRBBox): UserRect {
+    const a = normToUser(geom, bbox.x0, bbox.y0);
+    const b = normToUser(geom, bbox.x1, bbox.y1);
+    return {
+        x: Math.min(a.x, b.x),
+        y: Math.min(a.y, b.y),
+        width: Math.abs(b.x - a.x),
+        height: Math.abs(b.y - a.y),
+    };
+}
+
+/** Size of the displayed (rotated) page in points — what pdf.js reports at scale 1 */
+export function displaySize(geom: PageGeometry): { width: number; height: number } {
+    const sideways = geom.rotation === 90 || geom.rotation === 270;
+    return sideways
+        ? { width: geom.height, height: geom.width }
+        : { width: geom.width, height: geom.height };
+}
+
+/** Size of a normalized bbox in points, measured along the displayed axes */
+export function normBBoxSize(geom: PageGeometry, bbox: OCRBBox): { width: number; height: number } {
+    const display = displaySize(geom);
+    return {
+        width: (bbox.x1 - bbox.x0) * display.width,
+        height: (bbox.y1 - bbox.y0) * display.height,
+    };
+}
+
+/**
+ * Unit vectors in user space for the displayed page's reading direction
+ * (left → right) and "up", used to orient text so it reads upright on screen.
+ */
+export function displayAxes(rotation: number): { right: Vec2; up: Vec2 } {
+    switch (rotation) {
+        case 90:
+            return { right: { x: 0, y: 1 }, up: { x: -1, y: 0 } };
+        case 180:
+            return { right: { x: -1, y: 0 }, up: { x: 0, y: -1 } };
+        case 270:
+            return { right: { x: 0, y: -1 }, up: { x: 1, y: 0 } };
+        default:
+            return { right: { x: 1, y: 0 }, up: { x: 0, y: 1 } };
+    }
+}
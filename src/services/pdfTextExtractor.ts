@@ -1,4 +1,4 @@
-import type { OCRResult, OCRWord } from '../types';
+import type { OCRChar, OCRResult, OCRWord } from '../types';
 
 /**
  * Minimal interface for pdf.js TextItem — avoids importing the full pdfjs-dist
@@ -12,12 +12,106 @@ interface PdfTextItem {
     width: number;
     /** Height of the text span in PDF user space units */
     height: number;
+    /** pdf.js' name for the item's font — also the CSS family it registers the font under */
+    fontName: string;
+}
+
+interface PdfViewport {
+    width: number;
+    height: number;
+    /** PDF user space → displayed page (rotation and CropBox applied, top-left origin) */
+    convertToViewportPoint(x: number, y: number): number[];
+}
+
+/** The parts of a loaded pdf.js font read here */
+interface PdfFont {
+    name?: string;
+    bold?: boolean;
+}
+
+/** pdf.js object store; `get` without a callback only works for resolved objects */
+interface PdfObjects {
+    has(objId: string): boolean;
+    get(objId: string): unknown;
 }
 
 interface PdfPageProxy {
-    /** [x0, y0, x1, y1] in PDF user space units */
-    view: number[];
+    getViewport(params: { scale: number }): PdfViewport;
     getTextContent(): Promise<{ items: unknown[] }>;
+    /** Parses the page's drawing operators, which also loads its fonts into `document.fonts` */
+    getOperatorList?(): Promise<unknown>;
+    /** Fonts (among others) loaded for the document, keyed by `PdfTextItem.fontName` */
+    commonObjs?: PdfObjects;
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/** Size fonts are measured at — only ratios are used, so any size works */
+const MEASURE_FONT_SIZE = 100;
+
+let measureContext: CanvasRenderingContext2D | null | undefined;
+
+function getMeasureContext(): CanvasRenderingContext2D | null {
+    if (measureContext === undefined) {
+        measureContext = typeof document === 'undefined' ? null : document.createElement('canvas').getContext('2d');
+    }
+    return measureContext;
+}
+
+/**
+ * Make sure the fonts pdf.js embeds for this page are loaded, so their glyph
+ * widths can be measured and their names read. The page normally has not
+ * been drawn yet when its text is extracted; building the operator list
+ * loads the fonts the same way rendering does.
+ * Returns the CSS families that are ready.
+ */
+async function loadPageFonts(page: PdfPageProxy): Promise<Set<string>> {
+    if (!page.getOperatorList) return new Set();
+    try {
+        await page.getOperatorList();
+        if (typeof document === 'undefined' || !document.fonts) return new Set();
+        await document.fonts.ready;
+    } catch {
+        return new Set();
+    }
+    const loaded = new Set<string>();
+    document.fonts.forEach((face) => {
+        if (face.status === 'loaded') loaded.add(face.family.replace(/^"|"$/g, ''));
+    });
+    return loaded;
+}
+
+/** Whether pdf.js loaded `fontName` as a bold face — flagged by the font or implied by its name */
+function isBoldFont(page: PdfPageProxy, fontName: string): boolean {
+    if (!page.commonObjs?.has(fontName)) return false;
+    const font = page.commonObjs.get(fontName) as PdfFont | null;
+    return !!font && (!!font.bold || /bold|black|heavy/i.test(font.name ?? ''));
+}
+
+/**
+ * Horizontal position of every character boundary of `text`, as fractions
+ * of the whole run: offsets[i] is where character i starts, offsets[n] = 1.
+ *
+ * Measured with the PDF's own font (kerning included) when pdf.js has loaded
+ * it and it has a glyph for every character; otherwise characters are
+ * spaced evenly.
+ */
+function charOffsets(text: string, fontFamily: string | null): number[] {
+    const proportional = Array.from({ length: text.length + 1 }, (_, i) => i / text.length);
+    const ctx = fontFamily ? getMeasureContext() : null;
+    if (!ctx) return proportional;
+
+    const measure = (fallback: string, str: string) => {
+        ctx.font = `${MEASURE_FONT_SIZE}px "${fontFamily}", ${fallback}`;
+        return ctx.measureText(str).width;
+    };
+    // Characters missing from the font are drawn with the fallback family —
+    // two different fallbacks giving different widths gives that away
+    const total = measure('serif', text);
+    if (!(total > 0) || Math.abs(total - measure('monospace', text)) > 0.01) return proportional;
+
+    ctx.font = `${MEASURE_FONT_SIZE}px "${fontFamily}", serif`;
+    return proportional.map((_, i) => ctx.measureText(text.slice(0, i)).width / total);
 }
 
 /**
@@ -29,6 +123,12 @@ interface PdfPageProxy {
  * Coordinates are normalized to [0, 1] relative to the page dimensions,
  * matching the format used by the Tesseract OCR results so the overlay
  * works identically for both sources.
+ *
+ * pdf.js text items are often whole phrases or lines, so each is split on
+ * whitespace into separate words, boxed using the font's glyph widths (see
+ * `charOffsets`). The item's full text matrix and the page's /Rotate are
+ * applied, so words in rotated runs or on rotated pages get the upright box
+ * around them on the displayed page, plus their reading direction.
  */
 export async function extractPageText(
     page: PdfPageProxy,
@@ -50,52 +150,87 @@ export async function extractPageText(
         return null; // Scanned / image-only PDF — fall back to Tesseract OCR
     }
 
-    // Page dimensions in PDF user space (most PDFs have view[0]=view[1]=0)
-    const pageLeft = page.view[0];
-    const pageBottom = page.view[1];
-    const pageWidth = page.view[2] - pageLeft;
-    const pageHeight = page.view[3] - pageBottom;
+    // Displayed page at scale 1 — boxes follow /Rotate and the CropBox like the rendered canvas
+    const viewport = page.getViewport({ scale: 1 });
 
+    const fonts = await loadPageFonts(page);
     const words: OCRWord[] = [];
     let index = 0;
 
     for (const item of textItems) {
-        const text = item.str.trim();
-        if (!text) continue;
-
-        // PDF transform matrix: [a, b, c, d, tx, ty]
-        // tx, ty = position in PDF user space (origin: bottom-left)
-        const tx = item.transform[4] - pageLeft;
-        const ty = item.transform[5] - pageBottom;
+        // PDF transform matrix: [a, b, c, d, tx, ty] in user space (origin: bottom-left).
+        // (a, b) runs along the baseline, (c, d) points up the glyphs; both
+        // carry the font size, so only their directions are used here.
+        const [a, b, c, d, tx, ty] = item.transform;
+        const runLength = Math.hypot(a, b);
+        const upLength = Math.hypot(c, d);
+        const along = runLength > 0 ? { x: a / runLength, y: b / runLength } : { x: 1, y: 0 };
+        const up = upLength > 0 ? { x: c / upLength, y: d / upLength } : { x: -along.y, y: along.x };
         const itemWidth = Math.abs(item.width);
         // Height: use item.height if available and sensible, else derive from font size
-        const fontSizeApprox = Math.hypot(item.transform[0], item.transform[1]);
-        const itemHeight = item.height > 0 ? item.height : fontSizeApprox;
-
-        // Convert PDF coordinates (bottom-left origin, Y up)
-        // to normalized screen coordinates (top-left origin, Y down)
-        const x0 = tx / pageWidth;
-        const y0 = 1 - (ty + itemHeight) / pageHeight;
-        const x1 = (tx + itemWidth) / pageWidth;
-        const y1 = 1 - ty / pageHeight;
-
-        words.push({
-            id: `${pageNumber}-emb-${index++}`,
-            text,
-            confidence: 100, // Embedded text = 100% confidence
-            bbox: {
-                x0: Math.max(0, Math.min(1, x0)),
-                y0: Math.max(0, Math.min(1, y0)),
-                x1: Math.max(0, Math.min(1, x1)),
-                y1: Math.max(0, Math.min(1, y1)),
-            },
-        });
+        const itemHeight = item.height > 0 ? item.height : runLength;
+
+        /** Displayed-page point `distance` along the baseline and `rise` above it */
+        const toViewport = (distance: number, rise: number) =>
+            viewport.convertToViewportPoint(
+                tx + along.x * distance + up.x * rise,
+                ty + along.y * distance + up.y * rise
+            );
+
+        // Reading direction as displayed, clockwise from left-to-right
+        const [sx, sy] = toViewport(0, 0);
+        const [ex, ey] = toViewport(1, 0);
+        const direction = (Math.round((Math.atan2(ey - sy, ex - sx) * 180) / Math.PI) + 360) % 360;
+
+        const offsets = charOffsets(item.str, fonts.has(item.fontName) ? item.fontName : null);
+        const bold = isBoldFont(page, item.fontName) || undefined;
+        /** Normalized upright box around characters `from`–`to` of the run */
+        const box = (from: number, to: number) => {
+            const corners = [
+                toViewport(offsets[from] * itemWidth, 0),
+                toViewport(offsets[to] * itemWidth, 0),
+                toViewport(offsets[from] * itemWidth, itemHeight),
+                toViewport(offsets[to] * itemWidth, itemHeight),
+            ];
+            const xs = corners.map(([x]) => x / viewport.width);
+            const ys = corners.map(([, y]) => y / viewport.height);
+            return {
+                x0: clamp01(Math.min(...xs)),
+                y0: clamp01(Math.min(...ys)),
+                x1: clamp01(Math.max(...xs)),
+                y1: clamp01(Math.max(...ys)),
+            };
+        };
+
+        for (const match of item.str.matchAll(/\S+/g)) {
+            const start = match.index ?? 0;
+            const end = start + match[0].length;
+
+            // One box per code point, spanning its glyph advance
+            const chars: OCRChar[] = [];
+            let at = start;
+            for (const ch of match[0]) {
+                chars.push({ text: ch, bbox: box(at, at + ch.length) });
+                at += ch.length;
+            }
+
+            words.push({
+                id: `${pageNumber}-emb-${index++}`,
+                text: match[0],
+                confidence: 100, // Embedded text = 100% confidence
+                bbox: box(start, end),
+                chars,
+                direction,
+                bold,
+            });
+        }
     }
 
     if (words.length === 0) return null;
 
     return {
         pageNumber,
+        source: 'embedded',
         words,
         fullText: textItems.map((i) => i.str).join(' '),
     };
@@ -0,0 +1,201 @@
+import type {
+    Annotation,
+    AnnotationMode,
+    FieldAnnotation,
+    OCRResult,
+    PdfImportRecord,
+    ProjectBundle,
+    ViewSettings,
+} from '../types';
+
+/** Identifies our project files regardless of extension */
+const PROJECT_FORMAT = 'pdf-boundingbox-project';
+
+/**
+ * Current on-disk schema version. Bump this whenever the serialized shape
+ * (including the `types/index.ts` records it embeds) changes, and register a
+ * migration from the previous version in `MIGRATIONS`.
+ */
+export const PROJECT_SCHEMA_VERSION = 3;
+
+/** Suggested file suffix for saved projects */
+export const PROJECT_FILE_SUFFIX = '.pdfbbox.json';
+
+/** Serialized project — Maps/Sets flattened to arrays, PDF bytes base64-encoded */
+interface SerializedProject {
+    format: typeof PROJECT_FORMAT;
+    schemaVersion: number;
+    savedAt: string;
+    fileName: string;
+    pdf: string;
+    ocrResults: OCRResult[];
+    digitizedPages: number[];
+    fields: FieldAnnotation[];
+    annotations: Annotation[];
+    pdfImport: PdfImportRecord;
+    view: ViewSettings;
+}
+
+const ANNOTATION_MODES: AnnotationMode[] = ['none', 'highlight', 'rectangle', 'freehand', 'comment', 'field', 'table'];
+
+/** A parsed project file of any schema version, before its contents are checked */
+type VersionedProject = Record<string, unknown> & { schemaVersion: number };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Migrations keyed by the version they upgrade *from*. Each receives a
+ * project at version `n` and must return it in the version `n + 1` shape,
+ * checking whatever it reads — the input is only known to be versioned.
+ */
+const MIGRATIONS: Record<number, (project: VersionedProject) => VersionedProject> = {
+    // v2 records each OCR result's source. v1 only knew embedded text by its
+    // page being in `digitizedPages`; every other result was Tesseract's.
+    // The other additions since v1 (word chars / direction / bold, field
+    // type / locale / anchor) are optional, so v1 records need no change.
+    1: (project) => {
+        const digitized = new Set<unknown>(Array.isArray(project.digitizedPages) ? project.digitizedPages : []);
+        const ocrResults: unknown[] = Array.isArray(project.ocrResults) ? project.ocrResults : [];
+        return {
+            ...project,
+            schemaVersion: 2,
+            ocrResults: ocrResults.map((result) =>
+                isRecord(result) && result.source === undefined
+                    ? { ...result, source: digitized.has(result.pageNumber) ? 'embedded' : 'tesseract' }
+                    : result
+            ),
+        };
+    },
+    // v3 records what was imported from the PDF itself. v2 projects did not,
+    // so their exports replace none of the PDF's own annotations or fields.
+    // Fields also gained the optional `pdfFieldName`.
+    2: (project) => ({ ...project, schemaVersion: 3, pdfImport: { annotationRefs: [], fieldNames: [] } }),
+};
+
+// ─── Encoding helpers ────────────────────────────────────────────────────────
+
+function bytesToBase64(bytes: Uint8Array): string {
+    // Chunked to stay under the argument limit of String.fromCharCode
+    const CHUNK = 0x8000;
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += CHUNK) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+/** Rebuild a pageNumber → items map from a flat list */
+function groupByPage<T extends { pageNumber: number }>(items: T[]): Map<number, T[]> {
+    const map = new Map<number, T[]>();
+    for (const item of items) {
+        const existing = map.get(item.pageNumber) ?? [];
+        existing.push(item);
+        map.set(item.pageNumber, existing);
+    }
+    return map;
+}
+
+/** Whether `view` holds every viewer setting, each of the right kind */
+function isViewSettings(view: unknown): view is ViewSettings {
+    return (
+        isRecord(view) &&
+        typeof view.currentPage === 'number' &&
+        typeof view.scale === 'number' &&
+        ANNOTATION_MODES.includes(view.mode as AnnotationMode) &&
+        typeof view.annotationColor === 'string' &&
+        typeof view.showBBoxes === 'boolean'
+    );
+}
+
+/**
+ * Check that a project at the current schema version has everything
+ * `parseProject` reads. Records in the lists are only checked for a page
+ * number, which grouping them by page relies on.
+ */
+function checkProject(project: VersionedProject): SerializedProject {
+    const onPage = (list: unknown) =>
+        Array.isArray(list) && list.every((item) => isRecord(item) && typeof item.pageNumber === 'number');
+    const strings = (list: unknown) => Array.isArray(list) && list.every((item) => typeof item === 'string');
+    if (
+        typeof project.fileName !== 'string' ||
+        typeof project.pdf !== 'string' ||
+        !onPage(project.ocrResults) ||
+        !onPage(project.fields) ||
+        !onPage(project.annotations) ||
+        !Array.isArray(project.digitizedPages) ||
+        !isRecord(project.pdfImport) ||
+        !strings(project.pdfImport.annotationRefs) ||
+        !strings(project.pdfImport.fieldNames) ||
+        !isViewSettings(project.view)
+    ) {
+        throw new Error('Project file is incomplete or damaged');
+    }
+    return project as unknown as SerializedProject;
+}
+
+// ─── Public API ──────────────────────────────────────────────────────────────
+
+/**
+ * Serialize a workspace into a single versioned JSON project file.
+ */
+export function serializeProject(bundle: ProjectBundle): string {
+    const project: SerializedProject = {
+        format: PROJECT_FORMAT,
+        schemaVersion: PROJECT_SCHEMA_VERSION,
+        savedAt: new Date().toISOString(),
+        fileName: bundle.fileName,
+        pdf: bytesToBase64(bundle.pdfBytes),
+        ocrResults: Array.from(bundle.ocrResults.values()),
+        digitizedPages: Array.from(bundle.digitizedPages),
+        fields: Array.from(bundle.fields.values()).flat(),
+        annotations: Array.from(bundle.annotations.values()).flat(),
+        pdfImport: bundle.pdfImport,
+        view: bundle.view,
+    };
+    return JSON.stringify(project);
+}
+
+/**
+ * Parse a project file, upgrading it through `MIGRATIONS` to the current
+ * schema version first.
+ *
+ * @throws Error if the file is not a project, is damaged, or was written by a newer version
+ */
+export function parseProject(text: string): ProjectBundle {
+    const parsed: unknown = JSON.parse(text);
+    if (!isRecord(parsed) || parsed.format !== PROJECT_FORMAT || typeof parsed.schemaVersion !== 'number') {
+        throw new Error('Not a PDF BoundingBox project file');
+    }
+    let project: VersionedProject = { ...parsed, schemaVersion: parsed.schemaVersion };
+    if (project.schemaVersion > PROJECT_SCHEMA_VERSION) {
+        throw new Error(
+            `Project schema v${project.schemaVersion} is newer than supported v${PROJECT_SCHEMA_VERSION}`
+        );
+    }
+
+    while (project.schemaVersion < PROJECT_SCHEMA_VERSION) {
+        const migrate = MIGRATIONS[project.schemaVersion];
+        if (!migrate) throw new Error(`No migration from project schema v${project.schemaVersion}`);
+        project = migrate(project);
+    }
+
+    const p = checkProject(project);
+    return {
+        fileName: p.fileName,
+        pdfBytes: base64ToBytes(p.pdf),
+        ocrResults: new Map(p.ocrResults.map((r) => [r.pageNumber, r])),
+        digitizedPages: new Set(p.digitizedPages),
+        fields: groupByPage(p.fields),
+        annotations: groupByPage(p.annotations),
+        pdfImport: p.pdfImport,
+        view: p.view,
+    };
+}
@@ -0,0 +1,137 @@
+import type { ExtractionRule, FieldType, OCRResult, OCRWord, RuleValueType } from '../types';
+import { mergeBBoxes, useFieldStore } from './fieldStore';
+import { groupWordsIntoLines, pageLines } from '../utils/textLayout';
+import { findPhrase, wordText, wordsInRange, type WordText } from '../utils/textSearch';
+import { FIELD_TYPE_LABELS } from '../utils/fieldValues';
+
+/** Month names accepted in dates (English and German abbreviations cover most) */
+const MONTH = '(?:jan|feb|mär|mar|apr|ma[iy]|jun|jul|aug|sep|o[ck]t|nov|de[cz])[a-zä]*\\.?';
+const AMOUNT = '[-+]?\\d+(?:[.,\' ]\\d{3})*';
+const CURRENCY_SIGN = '(?:[$€£¥₹]|\\b[A-Z]{3}\\b)';
+
+/**
+ * What each value type matches inside the page text (see `wordText` for how
+ * words, phrases and lines are joined).
+ */
+export const VALUE_PATTERNS: Record<RuleValueType, RegExp> = {
+    text: /[^\t\n]+/,
+    number: new RegExp(`${AMOUNT}(?:[.,]\\d+)?`),
+    currency: new RegExp(
+        `${CURRENCY_SIGN} ?${AMOUNT}(?:[.,]\\d{1,2})?|${AMOUNT}[.,]\\d{2}(?: ?${CURRENCY_SIGN})?`
+    ),
+    date: new RegExp(
+        `\\b\\d{1,4}[./-]\\d{1,2}[./-]\\d{1,4}\\b|\\b\\d{1,2}\\.? ${MONTH} \\d{2,4}\\b|\\b${MONTH} \\d{1,2},? \\d{4}\\b`,
+        'i'
+    ),
+    email: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/,
+    phone: /\+?\d[\d ()/.-]{6,}\d/,
+    iban: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/,
+};
+
+/** Slack (fraction of the page) when deciding whether a word lies right of or below an anchor */
+const ANCHOR_TOL = 0.004;
+
+/** A rule's value on one page */
+export interface RuleMatch {
+    value: string;
+    words: OCRWord[];
+}
+
+/** First match of `pattern` in `source`, as its text (or first capture group) and the words under it */
+function firstMatch(source: WordText, pattern: RegExp): RuleMatch | null {
+    const match = pattern.exec(source.text);
+    if (!match) return null;
+    const group = match.length > 1 && match[1] !== undefined ? 1 : 0;
+    const value = match[group];
+    const start = group === 0 ? match.index : match.index + match[0].indexOf(value);
+    const end = start + value.length;
+    const words = wordsInRange(source, start, end);
+    return value.trim() && words.length > 0 ? { value: value.trim(), words } : null;
+}
+
+/**
+ * Check a rule before saving it: returns a message describing the problem,
+ * or null when the rule can run.
+ */
+export function validateRule(rule: ExtractionRule): string | null {
+    if (!rule.label.trim()) return 'A rule needs a field label';
+    if (rule.kind === 'anchor') return rule.anchor.trim() ? null : 'An anchor rule needs anchor text';
+    if (!rule.pattern) return 'A regex rule needs a pattern';
+    try {
+        new RegExp(rule.pattern);
+        return null;
+    } catch (err) {
+        return `Invalid pattern: ${(err as Error).message}`;
+    }
+}
+
+/**
+ * Evaluate one rule on one page. Regex rules search the whole page text;
+ * anchor rules find each occurrence of the anchor in turn and search the
+ * words to its right on the same line, or in the column under it, for the
+ * first value of the wanted type.
+ */
+export function evaluateRule(rule: ExtractionRule, result: OCRResult): RuleMatch | null {
+    if (rule.kind === 'regex') {
+        // Multiline, so ^ and $ match at the start and end of each text line
+        return firstMatch(wordText(pageLines(result)), new RegExp(rule.pattern, rule.ignoreCase ? 'im' : 'm'));
+    }
+
+    const valuePattern = VALUE_PATTERNS[rule.valueType];
+    for (const anchorWords of findPhrase(result, rule.anchor)) {
+        const anchor = mergeBBoxes(anchorWords.map((w) => w.bbox));
+        const anchorIds = new Set(anchorWords.map((w) => w.id));
+        const others = result.words.filter((w) => !anchorIds.has(w.id));
+
+        const candidates = rule.direction === 'right'
+            ? others.filter((w) => {
+                const cy = (w.bbox.y0 + w.bbox.y1) / 2;
+                return w.bbox.x0 >= anchor.x1 - ANCHOR_TOL && cy >= anchor.y0 && cy <= anchor.y1;
+            })
+            : others.filter((w) =>
+                w.bbox.y0 >= anchor.y1 - ANCHOR_TOL && w.bbox.x1 >= anchor.x0 && w.bbox.x0 <= anchor.x1
+            );
+        const match = firstMatch(wordText(groupWordsIntoLines(candidates)), valuePattern);
+        if (match) return match;
+    }
+    return null;
+}
+
+/**
+ * Run every rule over the OCR'd pages and create a field for each match
+ * (through `addFieldRect`, boxed by the matched words). Rules for a specific
+ * page only look there; the others produce one field per page they match
+ * on, typed after the value an anchor rule looked for. Pages that already
+ * have a field with the rule's label are skipped, so running again does not
+ * duplicate fields.
+ *
+ * @returns The number of fields created
+ */
+export function runRules(rules: ExtractionRule[], ocrResults: Map<number, OCRResult>): number {
+    const { addFieldRect, getPageFields } = useFieldStore.getState();
+    const pageNumbers = Array.from(ocrResults.keys()).sort((a, b) => a - b);
+    let created = 0;
+
+    for (const rule of rules) {
+        if (validateRule(rule)) continue;
+        const pages = rule.pageNumber === null ? pageNumbers : pageNumbers.filter((n) => n === rule.pageNumber);
+        for (const pageNumber of pages) {
+            if (getPageFields(pageNumber).some((f) => f.label === rule.label)) continue;
+            const match = evaluateRule(rule, ocrResults.get(pageNumber)!);
+            if (!match) continue;
+            const type = rule.kind === 'anchor' && rule.valueType in FIELD_TYPE_LABELS
+                ? rule.valueType as FieldType
+                : undefined;
+            addFieldRect(
+                pageNumber,
+                rule.label,
+                mergeBBoxes(match.words.map((w) => w.bbox)),
+                match.value,
+                match.words.map((w) => w.id),
+                { type }
+            );
+            created++;
+        }
+    }
+    return created;
+}
@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ExtractionRule, RuleValueType } from '../types';
+
+/** Identifies exported rule files */
+const RULES_FORMAT = 'pdf-boundingbox-rules';
+const RULES_SCHEMA_VERSION = 1;
+
+/** Suggested file name for exported rules */
+export const RULES_FILE_NAME = 'extraction-rules.json';
+
+const VALUE_TYPES: RuleValueType[] = ['text', 'number', 'currency', 'date', 'email', 'phone', 'iban'];
+
+interface RuleState {
+    rules: ExtractionRule[];
+    /** Add a rule, or replace the one with the same id */
+    saveRule: (rule: ExtractionRule) => void;
+    deleteRule: (id: string) => void;
+    /** Append imported rules */
+    importRules: (rules: ExtractionRule[]) => void;
+}
+
+export const useRuleStore = create<RuleState>()(
+    persist(
+        (set) => ({
+            rules: [],
+
+            saveRule: (rule) =>
+                set((s) => ({
+                    rules: s.rules.some((r) => r.id === rule.id)
+                        ? s.rules.map((r) => (r.id === rule.id ? rule : r))
+                        : [...s.rules, rule],
+                })),
+
+            deleteRule: (id) => set((s) => ({ rules: s.rules.filter((r) => r.id !== id) })),
+
+            importRules: (rules) => set((s) => ({ rules: [...s.rules, ...rules] })),
+        }),
+        // Rules apply across documents, like templates
+        { name: 'pdf-boundingbox-rules' }
+    )
+);
+
+/** Rules as a standalone JSON file */
+export function serializeRules(rules: ExtractionRule[]): string {
+    return JSON.stringify({ format: RULES_FORMAT, schemaVersion: RULES_SCHEMA_VERSION, rules }, null, 2);
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValueType = (value: unknown): value is RuleValueType =>
+    VALUE_TYPES.includes(value as RuleValueType);
+
+/** Check one imported rule's shape, giving it a fresh id */
+function parseRule(raw: unknown, index: number): ExtractionRule {
+    const where = `Rule ${index + 1}`;
+    if (!isRecord(raw) || typeof raw.label !== 'string') throw new Error(`${where} has no label`);
+    const pageNumber = typeof raw.pageNumber === 'number' && Number.isInteger(raw.pageNumber) && raw.pageNumber > 0
+        ? raw.pageNumber
+        : null;
+    const base = { id: crypto.randomUUID(), label: raw.label, pageNumber };
+
+    if (raw.kind === 'regex') {
+        if (typeof raw.pattern !== 'string') throw new Error(`${where} has no pattern`);
+        return { ...base, kind: 'regex', pattern: raw.pattern, ignoreCase: !!raw.ignoreCase };
+    }
+    if (raw.kind === 'anchor') {
+        if (typeof raw.anchor !== 'string') throw new Error(`${where} has no anchor`);
+        if (!isValueType(raw.valueType)) throw new Error(`${where} has an unknown value type "${String(raw.valueType)}"`);
+        return {
+            ...base,
+            kind: 'anchor',
+            anchor: raw.anchor,
+            direction: raw.direction === 'below' ? 'below' : 'right',
+            valueType: raw.valueType,
+        };
+    }
+    throw new Error(`${where} has an unknown kind "${String(raw.kind)}"`);
+}
+
+/** Read a file written by `serializeRules`. Throws an Error for anything else. */
+export function parseRules(text: string): ExtractionRule[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Not a rules file: invalid JSON');
+    }
+    if (!isRecord(data) || data.format !== RULES_FORMAT || !Array.isArray(data.rules)) {
+        throw new Error('Not a rules file');
+    }
+    if (typeof data.schemaVersion === 'number' && data.schemaVersion > RULES_SCHEMA_VERSION) {
+        throw new Error(`Rules file version ${data.schemaVersion} is newer than this app supports`);
+    }
+    return data.rules.map((raw: unknown, index) => parseRule(raw, index));
+}
@@ -0,0 +1,135 @@
+import type { DocumentSession, SessionSummary } from '../types';
+
+const DB_NAME = 'pdf-boundingbox';
+const DB_VERSION = 1;
+/** Session state (OCR, fields, annotations) — small, read for the recent list */
+const SESSIONS = 'sessions';
+/** Raw PDF bytes — kept separately so listing sessions never loads them */
+const DOCUMENTS = 'documents';
+
+interface StoredDocument {
+    hash: string;
+    bytes: Uint8Array;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Wrap an IDBRequest in a promise */
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+/** Resolve once a transaction has committed */
+function done(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+/**
+ * Open (and cache) the session database, creating object stores on first use.
+ */
+function openDB(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+            const db = req.result;
+            if (!db.objectStoreNames.contains(SESSIONS)) {
+                db.createObjectStore(SESSIONS, { keyPath: 'hash' });
+            }
+            if (!db.objectStoreNames.contains(DOCUMENTS)) {
+                db.createObjectStore(DOCUMENTS, { keyPath: 'hash' });
+            }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => {
+            dbPromise = null;
+            reject(req.error);
+        };
+    });
+
+    return dbPromise;
+}
+
+/**
+ * SHA-256 content hash of a PDF, as lowercase hex.
+ * Identical files get the same key regardless of their filename.
+ */
+export async function hashBytes(bytes: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+    return Array.from(new Uint8Array(digest))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Save (or overwrite) a session. The PDF bytes are only written when given,
+ * so autosaves after the first one skip re-writing the document.
+ *
+ * Maps and Sets are stored as-is — IndexedDB's structured clone supports them.
+ */
+export async function saveSession(session: DocumentSession, pdfBytes?: Uint8Array): Promise<void> {
+    const db = await openDB();
+    const tx = db.transaction([SESSIONS, DOCUMENTS], 'readwrite');
+    tx.objectStore(SESSIONS).put(session);
+    if (pdfBytes) {
+        const doc: StoredDocument = { hash: session.hash, bytes: pdfBytes };
+        tx.objectStore(DOCUMENTS).put(doc);
+    }
+    await done(tx);
+}
+
+/** Load a saved session by content hash, or `null` if none exists */
+export async function loadSession(hash: string): Promise<DocumentSession | null> {
+    const db = await openDB();
+    const session = await request<DocumentSession | undefined>(
+        db.transaction(SESSIONS).objectStore(SESSIONS).get(hash)
+    );
+    return session ?? null;
+}
+
+/** Load the PDF bytes stored alongside a session, for resuming from the recent list */
+export async function loadSessionDocument(hash: string): Promise<Uint8Array | null> {
+    const db = await openDB();
+    const doc = await request<StoredDocument | undefined>(
+        db.transaction(DOCUMENTS).objectStore(DOCUMENTS).get(hash)
+    );
+    return doc?.bytes ?? null;
+}
+
+/** All saved sessions, most recently updated first */
+export async function listSessions(): Promise<SessionSummary[]> {
+    const db = await openDB();
+    const sessions = await request<DocumentSession[]>(
+        db.transaction(SESSIONS).objectStore(SESSIONS).getAll()
+    );
+    const count = <T>(m: Map<number, T[]>) =>
+        Array.from(m.values()).reduce((n, list) => n + list.length, 0);
+
+    return sessions
+        .map((s) => ({
+            hash: s.hash,
+            fileName: s.fileName,
+            updatedAt: s.updatedAt,
+            ocrPageCount: s.ocrResults.size,
+            fieldCount: count(s.fields),
+            annotationCount: count(s.annotations),
+        }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Delete a session and its stored PDF */
+export async function deleteSession(hash: string): Promise<void> {
+    const db = await openDB();
+    const tx = db.transaction([SESSIONS, DOCUMENTS], 'readwrite');
+    tx.objectStore(SESSIONS).delete(hash);
+    tx.objectStore(DOCUMENTS).delete(hash);
+    await done(tx);
+}
@@ -0,0 +1,29 @@
+import type { OCRBBox, TableAnnotation } from '../types';
+import { csvCell } from './fieldExport';
+
+/** Output shapes offered for a table */
+export type TableExportFormat = 'csv' | 'json';
+
+/** One table as written by the JSON export */
+export interface ExportedTable {
+    pageNumber: number;
+    /** Normalized [0,1] table region */
+    bbox: OCRBBox;
+    /** Cell texts, row by row */
+    rows: string[][];
+}
+
+/** CSV with one line per table row, no header — the first row is whatever the table starts with */
+export function tableToCSV(table: TableAnnotation): string {
+    return table.cells.map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+/** Structured JSON: page, region and the grid of cell texts */
+export function tableToJSON(table: TableAnnotation): string {
+    const exported: ExportedTable = {
+        pageNumber: table.pageNumber,
+        bbox: { ...table.bbox },
+        rows: table.cells.map((row) => [...row]),
+    };
+    return JSON.stringify(exported, null, 2);
+}
@@ -0,0 +1,94 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { FieldAnnotation, FieldTemplate, OCRResult } from '../types';
+import { useFieldStore } from './fieldStore';
+import { captureTextInBox } from '../utils/textCapture';
+import { locateByAnchor } from '../utils/fieldAnchors';
+
+interface TemplateState {
+    templates: FieldTemplate[];
+    /** Template auto-applied to every page that gets OCR/embedded text */
+    activeTemplateId: string | null;
+
+    /** Snapshot the given fields (label, page, bbox, type) as a new named template */
+    saveTemplate: (name: string, fields: FieldAnnotation[]) => FieldTemplate;
+    renameTemplate: (id: string, name: string) => void;
+    deleteTemplate: (id: string) => void;
+    setActiveTemplate: (id: string | null) => void;
+    getActiveTemplate: () => FieldTemplate | null;
+}
+
+export const useTemplateStore = create<TemplateState>()(
+    persist(
+        (set, get) => ({
+            templates: [],
+            activeTemplateId: null,
+
+            saveTemplate: (name, fields) => {
+                const template: FieldTemplate = {
+                    id: crypto.randomUUID(),
+                    name,
+                    fields: fields.map((f) => ({
+                        label: f.label,
+                        pageNumber: f.pageNumber,
+                        bbox: { ...f.bbox },
+                        type: f.type,
+                        locale: f.locale,
+                        anchor: f.anchor,
+                    })),
+                    createdAt: Date.now(),
+                };
+                set((s) => ({ templates: [...s.templates, template] }));
+                return template;
+            },
+
+            renameTemplate: (id, name) =>
+                set((s) => ({
+                    templates: s.templates.map((t) => (t.id === id ? { ...t, name } : t)),
+                })),
+
+            deleteTemplate: (id) =>
+                set((s) => ({
+                    templates: s.templates.filter((t) => t.id !== id),
+                    activeTemplateId: s.activeTemplateId === id ? null : s.activeTemplateId,
+                })),
+
+            setActiveTemplate: (id) => set({ activeTemplateId: id }),
+
+            getActiveTemplate: () => {
+                const { templates, activeTemplateId } = get();
+                return templates.find((t) => t.id === activeTemplateId) ?? null;
+            },
+        }),
+        // Templates outlive a single document, so keep them in localStorage
+        { name: 'pdf-boundingbox-templates' }
+    )
+);
+
+/**
+ * Create the template's fields for one page, re-capturing each field's text
+ * from that page's words with `captureTextInBox`. Anchored fields are first
+ * moved to follow their anchor on this page (see `locateByAnchor`). Fields
+ * whose label the page already has are skipped, so applying a template to
+ * the document it was saved from (or twice) creates no duplicates.
+ *
+ * @returns The newly created field annotations
+ */
+export function applyTemplateToPage(template: FieldTemplate, ocrResult: OCRResult): FieldAnnotation[] {
+    const { addFieldRect, fields } = useFieldStore.getState();
+    const existing = new Set((fields.get(ocrResult.pageNumber) ?? []).map((f) => f.label));
+    return template.fields
+        .filter((tf) => tf.pageNumber === ocrResult.pageNumber && !existing.has(tf.label))
+        .map((tf) => {
+            const position = tf.anchor
+                ? locateByAnchor(tf.bbox, tf.anchor, ocrResult)
+                : { bbox: tf.bbox, anchor: undefined, anchorMissing: false };
+            const { text, wordIds } = captureTextInBox(ocrResult.words, position.bbox);
+            return addFieldRect(tf.pageNumber, tf.label, position.bbox, text, wordIds, {
+                type: tf.type,
+                locale: tf.locale,
+                anchor: position.anchor,
+                anchorMissing: position.anchorMissing || undefined,
+            });
+        });
+}
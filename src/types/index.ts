@@ -7,17 +7,56 @@ export interface OCRBBox {
     y1: number;
 }
 
+/** One character of a word and its box, in the same units as the word's */
+export interface OCRChar {
+    text: string;
+    bbox: OCRBBox;
+}
+
 export interface OCRWord {
     id: string; // stable id, e.g. `${pageNumber}-${index}`
     text: string;
     confidence: number;
     bbox: OCRBBox;
+    /** Per-character boxes, when the source gives them (Tesseract symbols, pdf.js glyph advances) */
+    chars?: OCRChar[];
+    /**
+     * Reading direction on the displayed page, in degrees clockwise from
+     * left-to-right: 0 normal text, 90 top-to-bottom, 270 bottom-to-top.
+     * Absent when the source does not report it (assume 0).
+     */
+    direction?: number;
+    /** Set when the source reports a bold typeface (embedded fonts, Tesseract font attributes) */
+    bold?: boolean;
+}
+
+/** A line, paragraph or block of text: its extent plus the words it contains, in reading order */
+export interface OCRTextRegion {
+    id: string;
+    bbox: OCRBBox;
+    wordIds: string[];
 }
 
+/** Level at which OCR text is shown and selected in the overlay */
+export type TextGranularity = 'word' | 'line' | 'paragraph' | 'block';
+
+/** Where a page's words came from — `sidecar` is OCR output loaded from an external engine's file */
+export type OCRSource = 'tesseract' | 'embedded' | 'sidecar';
+
 export interface OCRResult {
     pageNumber: number;
+    /** Absent on results saved before sources were tracked */
+    source?: OCRSource;
     words: OCRWord[];
+    /** Layout structure reported by the engine — absent when it only gives words (e.g. embedded text) */
+    lines?: OCRTextRegion[];
+    paragraphs?: OCRTextRegion[];
+    blocks?: OCRTextRegion[];
     fullText: string;
+    /** Resolution the page was rendered at for Tesseract (absent for embedded text) */
+    dpi?: number;
+    /** Tesseract language(s) used, e.g. `deu+eng` (absent for embedded text) */
+    language?: string;
 }
 
 // ─── Page Dimensions ─────────────────────────────────────────────────────────
@@ -29,7 +68,7 @@ export interface PageDimensions {
 
 // ─── Annotation Types ────────────────────────────────────────────────────────
 
-export type AnnotationMode = 'none' | 'highlight' | 'rectangle' | 'freehand' | 'comment' | 'field';
+export type AnnotationMode = 'none' | 'highlight' | 'rectangle' | 'freehand' | 'comment' | 'field' | 'table';
 
 export interface AnnotationBase {
     id: string;
@@ -53,6 +92,8 @@ export interface FreehandAnnotation extends AnnotationBase {
     type: 'freehand';
     /** Fabric.js serialized path JSON */
     fabricJson: string;
+    /** Viewer zoom the path was drawn at — its coordinates are canvas px at this scale (default 1) */
+    scale?: number;
 }
 
 export interface CommentAnnotation extends AnnotationBase {
@@ -61,14 +102,45 @@ export interface CommentAnnotation extends AnnotationBase {
     position: { x: number; y: number };
 }
 
+/**
+ * A table read from a drawn region. Unlike the other markup its geometry is
+ * normalized [0,1], like fields, since its cells are read from OCR words.
+ */
+export interface TableAnnotation extends AnnotationBase {
+    type: 'table';
+    bbox: OCRBBox;
+    /** x of every boundary between two columns, ascending */
+    columns: number[];
+    /** y of every boundary between two rows, ascending */
+    rows: number[];
+    /** Cell texts, row by row (`rows.length + 1` rows of `columns.length + 1` cells) */
+    cells: string[][];
+}
+
 export type Annotation =
     | RectAnnotation
     | HighlightAnnotation
     | FreehandAnnotation
-    | CommentAnnotation;
+    | CommentAnnotation
+    | TableAnnotation;
 
 // ─── Field Annotation ────────────────────────────────────────────────────────
 
+/** Kind of value a field holds, deciding how it is normalized and validated */
+export type FieldType = 'text' | 'number' | 'currency' | 'date' | 'email' | 'phone' | 'checkbox';
+
+/**
+ * Phrase a field is positioned against, so it follows the layout when the
+ * page is shifted (different scan offset, margins). The field keeps its
+ * offset from where the anchor was found.
+ */
+export interface FieldAnchor {
+    /** Anchor phrase, matched case-insensitively, e.g. "Policy Number" */
+    text: string;
+    /** Where the anchor was found (normalized [0,1]) */
+    bbox: OCRBBox;
+}
+
 /**
  * A labeled field annotation — created by selecting one or more OCR/embedded
  * text words and giving the selection a field name (e.g. "Invoice Number").
@@ -86,6 +158,135 @@ export interface FieldAnnotation {
     wordIds: string[];
     color: string;
     createdAt: number;
+    /** What the value holds; absent means plain text */
+    type?: FieldType;
+    /** BCP 47 locale the value is written in, e.g. "de-DE" — used to read numbers and dates */
+    locale?: string;
+    anchor?: FieldAnchor;
+    /** Set when the anchor was not found on the page, so the field kept its stored position */
+    anchorMissing?: boolean;
+    /**
+     * Fully qualified name of the PDF text field this was imported from.
+     * Fields sharing it are that field's widgets, exported again as one field.
+     */
+    pdfFieldName?: string;
+}
+
+// ─── Field Templates ─────────────────────────────────────────────────────────
+
+/** Geometry of a single field within a template — no captured value */
+export interface TemplateField {
+    label: string;
+    pageNumber: number;
+    /** Field region (normalized [0,1]) */
+    bbox: OCRBBox;
+    type?: FieldType;
+    locale?: string;
+    anchor?: FieldAnchor;
+}
+
+/**
+ * A named, reusable set of field regions. Applying a template to another
+ * document re-captures each field's text from that page's OCR words.
+ */
+export interface FieldTemplate {
+    id: string;
+    name: string;
+    fields: TemplateField[];
+    createdAt: number;
+}
+
+// ─── Extraction Rules ────────────────────────────────────────────────────────
+
+/** Kind of value an anchor rule looks for */
+export type RuleValueType = 'text' | 'number' | 'currency' | 'date' | 'email' | 'phone' | 'iban';
+
+interface ExtractionRuleBase {
+    id: string;
+    /** Label of the fields the rule creates */
+    label: string;
+    /** Page to search, or null for every page */
+    pageNumber: number | null;
+}
+
+/** "Label = first match of `pattern`" — a capture group, if any, is the value */
+export interface RegexRule extends ExtractionRuleBase {
+    kind: 'regex';
+    pattern: string;
+    ignoreCase: boolean;
+}
+
+/** "Label = first `valueType` value to the right of / below the words `anchor`" */
+export interface AnchorRule extends ExtractionRuleBase {
+    kind: 'anchor';
+    anchor: string;
+    direction: 'right' | 'below';
+    valueType: RuleValueType;
+}
+
+export type ExtractionRule = RegexRule | AnchorRule;
+
+// ─── PDF Import ──────────────────────────────────────────────────────────────
+
+/**
+ * What was imported from the PDF's own annotations and form fields when it
+ * was opened. Exports replace exactly these with the stores' copies and
+ * leave everything else in the PDF as it was.
+ */
+export interface PdfImportRecord {
+    /** Object references of the imported markup, as pdf.js annotation ids (`12R`, or `12R1` for generation 1) */
+    annotationRefs: string[];
+    /** Fully qualified names of the imported text fields */
+    fieldNames: string[];
+}
+
+// ─── Saved Sessions ──────────────────────────────────────────────────────────
+
+/** Everything needed to resume work on a document, keyed by its content hash */
+export interface DocumentSession {
+    /** SHA-256 hex digest of the PDF bytes */
+    hash: string;
+    fileName: string;
+    updatedAt: number;
+    ocrResults: Map<number, OCRResult>;
+    digitizedPages: Set<number>;
+    fields: Map<number, FieldAnnotation[]>;
+    annotations: Map<number, Annotation[]>;
+    /** Absent on sessions saved before imports were recorded — their exports replace nothing */
+    pdfImport?: PdfImportRecord;
+}
+
+/** Lightweight listing entry for the "recent documents" list */
+export interface SessionSummary {
+    hash: string;
+    fileName: string;
+    updatedAt: number;
+    ocrPageCount: number;
+    fieldCount: number;
+    annotationCount: number;
+}
+
+// ─── Project Files ───────────────────────────────────────────────────────────
+
+/** Viewer settings carried in a project file */
+export interface ViewSettings {
+    currentPage: number;
+    scale: number;
+    mode: AnnotationMode;
+    annotationColor: string;
+    showBBoxes: boolean;
+}
+
+/** A complete, portable workspace: the PDF plus all work done on it */
+export interface ProjectBundle {
+    fileName: string;
+    pdfBytes: Uint8Array;
+    ocrResults: Map<number, OCRResult>;
+    digitizedPages: Set<number>;
+    fields: Map<number, FieldAnnotation[]>;
+    annotations: Map<number, Annotation[]>;
+    pdfImport: PdfImportRecord;
+    view: ViewSettings;
 }
 
 // ─── App State ───────────────────────────────────────────────────────────────
@@ -0,0 +1,20 @@
+/**
+ * Trigger a browser download of in-memory data.
+ */
+export function downloadFile(data: BlobPart, filename: string, type: string): void {
+    const blob = new Blob([data], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Replace a filename's extension (or append one), e.g. `scan.pdf` → `scan_fields.csv`.
+ */
+export function withExtension(filename: string | undefined, suffix: string, fallback = 'export'): string {
+    const base = filename ? filename.replace(/\.[^.]+$/, '') : fallback;
+    return `${base}${suffix}`;
+}
@@ -0,0 +1,56 @@
+import type { FieldAnchor, OCRBBox, OCRResult } from '../types';
+import { findPhrase } from './textSearch';
+
+/** Where an anchored field belongs on a page */
+export interface AnchoredPosition {
+    bbox: OCRBBox;
+    anchor: FieldAnchor;
+    /** True when the anchor is not on the page — `bbox` is then unchanged */
+    anchorMissing: boolean;
+}
+
+const center = (b: OCRBBox) => ({ x: (b.x0 + b.x1) / 2, y: (b.y0 + b.y1) / 2 });
+
+/**
+ * Box of the occurrence of `text` on the page closest to `near`, or null
+ * when the phrase does not occur. Multi-word phrases span their words.
+ */
+export function findAnchor(text: string, result: OCRResult, near: OCRBBox): OCRBBox | null {
+    const target = center(near);
+    let best: OCRBBox | null = null;
+    let bestDistance = Infinity;
+    for (const words of findPhrase(result, text)) {
+        const bbox: OCRBBox = {
+            x0: Math.min(...words.map((w) => w.bbox.x0)),
+            y0: Math.min(...words.map((w) => w.bbox.y0)),
+            x1: Math.max(...words.map((w) => w.bbox.x1)),
+            y1: Math.max(...words.map((w) => w.bbox.y1)),
+        };
+        const c = center(bbox);
+        const distance = Math.hypot(c.x - target.x, c.y - target.y);
+        if (distance < bestDistance) {
+            best = bbox;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+/** Move `bbox` by however far `from` moved to become `to`, keeping it on the page */
+function shiftBBox(bbox: OCRBBox, from: OCRBBox, to: OCRBBox): OCRBBox {
+    const width = bbox.x1 - bbox.x0;
+    const height = bbox.y1 - bbox.y0;
+    const x0 = Math.min(Math.max(bbox.x0 + to.x0 - from.x0, 0), 1 - width);
+    const y0 = Math.min(Math.max(bbox.y0 + to.y0 - from.y0, 0), 1 - height);
+    return { x0, y0, x1: x0 + width, y1: y0 + height };
+}
+
+/**
+ * Re-locate a field box on a (possibly shifted) page: find its anchor
+ * nearest to where it was last seen and move the box along with it.
+ */
+export function locateByAnchor(bbox: OCRBBox, anchor: FieldAnchor, result: OCRResult): AnchoredPosition {
+    const found = findAnchor(anchor.text, result, anchor.bbox);
+    if (!found) return { bbox, anchor, anchorMissing: true };
+    return { bbox: shiftBBox(bbox, anchor.bbox, found), anchor: { text: anchor.text, bbox: found }, anchorMissing: false };
+}
@@ -0,0 +1,235 @@
+import type { FieldAnnotation, FieldType } from '../types';
+
+/** Canonical form of a field value: numbers as numbers, dates as ISO strings, checkboxes as booleans */
+export type NormalizedFieldValue = string | number | boolean | null;
+
+export interface FieldValueCheck {
+    /** Canonical value, or null when the field is empty or invalid */
+    normalized: NormalizedFieldValue;
+    /** Why the value does not fit the field's type, or null when it does */
+    error: string | null;
+}
+
+export const FIELD_TYPE_LABELS: Record<FieldType, string> = {
+    text: 'Text',
+    number: 'Number',
+    currency: 'Currency',
+    date: 'Date',
+    email: 'E-mail',
+    phone: 'Phone',
+    checkbox: 'Checkbox',
+};
+
+/** Types whose reading depends on the locale (decimal separator, date order, month names) */
+export const LOCALE_FIELD_TYPES: FieldType[] = ['number', 'currency', 'date'];
+
+/** Locale assumed for fields that have none — the browser's */
+export const DEFAULT_LOCALE = typeof navigator !== 'undefined' ? navigator.language : 'en-US';
+
+/** Locales offered in the field type picker (the browser's is added when missing) */
+export const FIELD_LOCALES = [
+    'en-US', 'en-GB', 'de-DE', 'de-CH', 'fr-FR', 'es-ES', 'it-IT', 'nl-NL', 'pt-BR', 'pl-PL', 'sv-SE', 'ja-JP',
+];
+
+/** Currency symbols mapped to their ISO 4217 codes */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR', '₽': 'RUB', '₩': 'KRW', '₺': 'TRY', '₪': 'ILS',
+};
+
+const CHECKED_MARKS = new Set(['x', '✓', '✔', '☑', '☒', '■', '●', 'yes', 'y', 'true', '1', 'on', 'checked', 'ja', 'oui', 'sí', 'si']);
+const UNCHECKED_MARKS = new Set(['', '☐', '□', '○', 'no', 'n', 'false', '0', 'off', 'unchecked', 'nein', 'non']);
+
+/** Separators any locale may use to group thousands */
+const UNIVERSAL_GROUPS = [' ', '\u00a0', '\u202f', "'", '’'];
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const foldCase = (s: string) => s.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/** `locale` when the runtime knows it, otherwise the default */
+function resolveLocale(locale: string | undefined): string {
+    try {
+        return Intl.getCanonicalLocales(locale ?? DEFAULT_LOCALE)[0] ?? 'en-US';
+    } catch {
+        return DEFAULT_LOCALE;
+    }
+}
+
+/**
+ * Read a number written the way `locale` writes it: its decimal separator,
+ * and thousands grouped by its group separator (or a space / apostrophe) in
+ * threes. Anything else — e.g. "1234.50" under de-DE — is rejected rather
+ * than guessed.
+ */
+function parseLocaleNumber(raw: string, locale: string): number | null {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    const decimal = parts.find((p) => p.type === 'decimal')?.value ?? '.';
+    const group = parts.find((p) => p.type === 'group')?.value ?? ',';
+    const groups = [group, ...UNIVERSAL_GROUPS].filter((g) => g !== decimal).map(escapeRegExp).join('|');
+    const pattern = new RegExp(`^(\\d{1,3}(?:(?:${groups})\\d{3})+|\\d+)(?:${escapeRegExp(decimal)}(\\d+))?$`);
+
+    let s = raw.trim().replace(/\s+/g, ' ');
+    let sign = 1;
+    // -12, −12, 12-, (12)
+    const negative = /^[-−]\s*(.+)$/.exec(s) ?? /^(.+?)\s*[-−]$/.exec(s) ?? /^\((.+)\)$/.exec(s);
+    if (negative) {
+        sign = -1;
+        s = negative[1];
+    } else if (s.startsWith('+')) {
+        s = s.slice(1).trim();
+    }
+    const match = pattern.exec(s);
+    if (!match) return null;
+    return sign * Number(`${match[1].replace(/\D/g, '')}.${match[2] ?? '0'}`);
+}
+
+/** Amount plus currency code — the symbol or code may lead or trail */
+function parseCurrency(raw: string, locale: string): { amount: number; currency: string | null } | null {
+    let currency: string | null = null;
+    const amountText = raw.replace(/[$€£¥₹₽₩₺₪]|\b[A-Z]{3}\b/, (found) => {
+        currency = CURRENCY_SYMBOLS[found] ?? found;
+        return '';
+    });
+    const amount = parseLocaleNumber(amountText, locale);
+    return amount === null ? null : { amount, currency };
+}
+
+/** Order of day, month and year in `locale`'s numeric dates */
+function dateOrder(locale: string): ('day' | 'month' | 'year')[] {
+    return new Intl.DateTimeFormat(locale, { year: 'numeric', month: '2-digit', day: '2-digit' })
+        .formatToParts(new Date(2001, 10, 22))
+        .map((p) => p.type)
+        .filter((t): t is 'day' | 'month' | 'year' => t === 'day' || t === 'month' || t === 'year');
+}
+
+/** Month (1–12) whose name in `locale` or English starts with `token`, if exactly one does */
+function monthFromName(token: string, locale: string): number | null {
+    const prefix = foldCase(token);
+    if (prefix.length < 3) return null;
+    const found = new Set<number>();
+    for (const lang of [locale, 'en']) {
+        const format = new Intl.DateTimeFormat(lang, { month: 'long', timeZone: 'UTC' });
+        for (let m = 0; m < 12; m++) {
+            if (foldCase(format.format(new Date(Date.UTC(2001, m, 15)))).startsWith(prefix)) found.add(m + 1);
+        }
+    }
+    return found.size === 1 ? [...found][0] : null;
+}
+
+/** Two-digit years count back from twenty years ahead */
+function fullYear(year: number): number {
+    if (year >= 100) return year;
+    return 2000 + year > new Date().getFullYear() + 20 ? 1900 + year : 2000 + year;
+}
+
+/** ISO date (YYYY-MM-DD) if the parts make a real calendar day */
+function isoDate(year: number, month: number, day: number): string | null {
+    const y = fullYear(year);
+    const date = new Date(Date.UTC(y, month - 1, day));
+    if (date.getUTCFullYear() !== y || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return `${String(y).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Read a date: ISO-style with the year first, numeric in `locale`'s
+ * day / month / year order, or with the month spelled out in `locale` or
+ * English ("3. März 2024", "March 3, 2024").
+ */
+function parseDate(raw: string, locale: string): string | null {
+    const s = raw.trim().replace(/\.$/, '');
+    const yearFirst = /^(\d{4})[-./](\d{1,2})[-./](\d{1,2})$/.exec(s);
+    if (yearFirst) return isoDate(+yearFirst[1], +yearFirst[2], +yearFirst[3]);
+
+    const numeric = /^(\d{1,4})[-./ ](\d{1,2})[-./ ](\d{1,4})$/.exec(s);
+    if (numeric) {
+        const parts: Record<string, number> = {};
+        dateOrder(locale).forEach((type, i) => { parts[type] = +numeric[i + 1]; });
+        return isoDate(parts.year, parts.month, parts.day);
+    }
+
+    const tokens = s.split(/[\s,./-]+/).filter(Boolean);
+    if (tokens.length !== 3) return null;
+    const named = tokens.findIndex((t) => /\p{L}{3,}/u.test(t) && !/\d/.test(t));
+    if (named < 0) return null;
+    const month = monthFromName(tokens[named], locale);
+    const numbers = tokens.filter((_, i) => i !== named).map((t) => /^(\d{1,4})(?:st|nd|rd|th)?$/i.exec(t)?.[1]);
+    if (month === null || numbers.some((n) => n === undefined)) return null;
+    // Day before year ("3 March 2024", "March 3, 2024") unless the first number is a four-digit year
+    const [first, second] = numbers.map(Number);
+    return numbers[0]!.length === 4 ? isoDate(first, month, second) : isoDate(second, month, first);
+}
+
+/** Phone number reduced to digits, with a leading "+" for international numbers */
+function parsePhone(raw: string): string | null {
+    if (/[^\d\s()+./-]/.test(raw)) return null;
+    // "+49 (0)30 …" — the bracketed trunk prefix is not dialed from abroad
+    let s = raw.trim().replace(/^(\+\d+)\s*\(0\)/, '$1');
+    s = s.replace(/^00/, '+');
+    const digits = s.replace(/\D/g, '');
+    if (digits.length < 6 || digits.length > 15) return null;
+    return s.startsWith('+') ? `+${digits}` : digits;
+}
+
+/** E-mail address with OCR spaces removed and the domain lower-cased */
+function parseEmail(raw: string): string | null {
+    const s = raw.replace(/\s+/g, '');
+    const match = /^([\w.+-]+)@([\w-]+(?:\.[\w-]+)*\.[a-z]{2,})$/i.exec(s);
+    return match ? `${match[1]}@${match[2].toLowerCase()}` : null;
+}
+
+/**
+ * Normalize and validate a raw field value as `type`, reading numbers and
+ * dates the way `locale` writes them. Empty values are valid and normalize
+ * to null (an empty checkbox is unchecked).
+ */
+export function checkFieldValue(raw: string, type: FieldType = 'text', locale?: string): FieldValueCheck {
+    const value = raw.trim();
+    if (type === 'checkbox') {
+        const mark = value.toLowerCase();
+        if (CHECKED_MARKS.has(mark)) return { normalized: true, error: null };
+        if (UNCHECKED_MARKS.has(mark)) return { normalized: false, error: null };
+        return { normalized: null, error: `"${value}" is not a checkbox mark` };
+    }
+    if (!value) return { normalized: null, error: null };
+
+    const loc = resolveLocale(locale);
+    const fail = (error: string): FieldValueCheck => ({ normalized: null, error });
+    switch (type) {
+        case 'text':
+            return { normalized: value.replace(/\s+/g, ' '), error: null };
+        case 'number': {
+            const n = parseLocaleNumber(value, loc);
+            return n === null ? fail(`Not a number in ${loc} format`) : { normalized: n, error: null };
+        }
+        case 'currency': {
+            const parsed = parseCurrency(value, loc);
+            if (!parsed) return fail(`Not an amount in ${loc} format`);
+            const digits = parsed.currency
+                ? new Intl.NumberFormat('en', { style: 'currency', currency: parsed.currency }).resolvedOptions().maximumFractionDigits
+                : 2;
+            const amount = parsed.amount.toFixed(digits);
+            return { normalized: parsed.currency ? `${amount} ${parsed.currency}` : amount, error: null };
+        }
+        case 'date': {
+            const iso = parseDate(value, loc);
+            return iso === null ? fail(`Not a valid date in ${loc} format`) : { normalized: iso, error: null };
+        }
+        case 'email': {
+            const email = parseEmail(value);
+            return email === null ? fail('Not an e-mail address') : { normalized: email, error: null };
+        }
+        case 'phone': {
+            const phone = parsePhone(value);
+            return phone === null ? fail('Not a phone number') : { normalized: phone, error: null };
+        }
+    }
+}
+
+/** `checkFieldValue` for a field's own value, type and locale */
+export function checkField(field: FieldAnnotation): FieldValueCheck {
+    return checkFieldValue(field.value, field.type, field.locale);
+}
+
+/** Normalized value as plain text, for CSV cells and display */
+export function formatNormalized(value: NormalizedFieldValue): string {
+    return value === null ? '' : String(value);
+}
@@ -0,0 +1,149 @@
+import type { OCRBBox, OCRResult, OCRWord } from '../types';
+import { pageLines, splitPhrases } from './textLayout';
+
+/** Longest label considered, in words */
+const MAX_LABEL_WORDS = 5;
+/** How far left edges may differ (fraction of page width) and still count as aligned */
+const ALIGN_TOL = 0.01;
+/** Lines needed in a left-aligned label column before it is trusted */
+const MIN_ALIGNED_LINES = 3;
+/** A value below its label must start within this many label heights */
+const MAX_BELOW_LINES = 2;
+/** A line of at least this many short, evenly spaced phrases reads as table cells, not labels */
+const MIN_TABLE_ROW_CELLS = 3;
+/** Longest phrase (in words) still taken for a table cell */
+const MAX_CELL_WORDS = 2;
+/** How far the gaps between cell starts may stray from their mean (fraction of it) */
+const EVEN_SPACING_TOL = 0.35;
+
+/** How a label was recognized */
+export type KeyValueKind = 'colon' | 'bold' | 'aligned';
+
+export interface KeyValuePair {
+    /** Label text without its trailing colon */
+    label: string;
+    labelWords: OCRWord[];
+    /** Value words in reading order */
+    words: OCRWord[];
+    kind: KeyValueKind;
+}
+
+const endsWithColon = (w: OCRWord) => /\S[:：]$/.test(w.text) || /^[:：]$/.test(w.text);
+const hasLetter = (words: OCRWord[]) => words.some((w) => /\p{L}/u.test(w.text));
+
+/** Whether a line's phrases look like a table row: several short cells at even spacing */
+function isTableRow(line: OCRWord[][]): boolean {
+    if (line.length < MIN_TABLE_ROW_CELLS || line.some((phrase) => phrase.length > MAX_CELL_WORDS)) return false;
+    const starts = line.map((phrase) => phrase[0].bbox.x0);
+    const gaps = starts.slice(1).map((x, i) => x - starts[i]);
+    const mean = gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length;
+    return gaps.every((gap) => Math.abs(gap - mean) <= mean * EVEN_SPACING_TOL);
+}
+
+/** Whether the word's center lies in one of `regions` */
+function inRegion(word: OCRWord, regions: OCRBBox[]): boolean {
+    const x = (word.bbox.x0 + word.bbox.x1) / 2;
+    const y = (word.bbox.y0 + word.bbox.y1) / 2;
+    return regions.some((r) => x >= r.x0 && x <= r.x1 && y >= r.y0 && y <= r.y1);
+}
+
+/** Words up to (not including) the first one ending in a colon — the next label starts there */
+function untilNextLabel(words: OCRWord[]): OCRWord[] {
+    const end = words.findIndex(endsWithColon);
+    return end < 0 ? words : words.slice(0, end);
+}
+
+/**
+ * Find label → value pairs on a page, the way a person reads a form:
+ * - **colon** — a phrase ending in ':' labels the rest of its phrase, or else
+ *   the next phrase on the line, or else the phrase starting under it on the
+ *   next line
+ * - **bold** — leading bold words label the regular words after them
+ * - **aligned** — short phrases starting at the same left edge on several
+ *   lines, each followed by more text on its line, form a label column —
+ *   lines that look like table rows are left out of it
+ *
+ * Words inside `tables` (normalized table regions on the page) are never
+ * paired, and every other word is used at most once. Pairs come back in
+ * reading order.
+ */
+export function detectKeyValuePairs(result: OCRResult, tables: OCRBBox[] = []): KeyValuePair[] {
+    const lines = pageLines(result);
+    const linePhrases = lines.map(splitPhrases);
+
+    const used = new Set<string>();
+    const pairs: KeyValuePair[] = [];
+    const isFree = (words: OCRWord[]) => words.every((w) => !used.has(w.id) && !inRegion(w, tables));
+    const add = (labelWords: OCRWord[], words: OCRWord[], kind: KeyValueKind) => {
+        if (words.length === 0 || !hasLetter(labelWords) || !isFree(labelWords) || !isFree(words)) return false;
+        for (const w of [...labelWords, ...words]) used.add(w.id);
+        const label = labelWords.map((w) => w.text).join(' ').replace(/\s*[:：]$/, '').trim();
+        if (label) pairs.push({ label, labelWords, words, kind });
+        return true;
+    };
+
+    /** Phrase on the line below `labelWords` that starts under them, if close enough */
+    const valueBelow = (li: number, labelWords: OCRWord[]): OCRWord[] => {
+        const next = linePhrases[li + 1];
+        if (!next) return [];
+        const top = Math.min(...labelWords.map((w) => w.bbox.y0));
+        const bottom = Math.max(...labelWords.map((w) => w.bbox.y1));
+        const nextTop = Math.min(...lines[li + 1].map((w) => w.bbox.y0));
+        if (nextTop - bottom > (bottom - top) * MAX_BELOW_LINES) return [];
+        const x0 = labelWords[0].bbox.x0 - ALIGN_TOL;
+        const x1 = labelWords[labelWords.length - 1].bbox.x1;
+        const phrase = next.find((p) => p[p.length - 1].bbox.x1 >= x0 && p[0].bbox.x0 <= x1);
+        return phrase && !endsWithColon(phrase[0]) ? untilNextLabel(phrase) : [];
+    };
+
+    // ── Colon labels ────────────────────────────────────────────────────────
+    linePhrases.forEach((line, li) => {
+        line.forEach((phrase, pi) => {
+            let start = 0;
+            phrase.forEach((word, wi) => {
+                if (!endsWithColon(word)) return;
+                const labelWords = phrase.slice(Math.max(start, wi + 1 - MAX_LABEL_WORDS), wi + 1);
+                let value = untilNextLabel(phrase.slice(wi + 1));
+                if (value.length === 0 && wi === phrase.length - 1) {
+                    const nextPhrase = line[pi + 1];
+                    value = nextPhrase ? untilNextLabel(nextPhrase) : [];
+                    if (value.length === 0 && !nextPhrase) value = valueBelow(li, labelWords);
+                }
+                add(labelWords, value, 'colon');
+                start = wi + 1 + value.length;
+            });
+        });
+    });
+
+    // ── Bold labels ─────────────────────────────────────────────────────────
+    linePhrases.forEach((line) => {
+        line.forEach((phrase, pi) => {
+            const boldCount = phrase.findIndex((w) => !w.bold);
+            if (boldCount === 0) return;
+            if (boldCount > 0) {
+                if (boldCount <= MAX_LABEL_WORDS) add(phrase.slice(0, boldCount), untilNextLabel(phrase.slice(boldCount)), 'bold');
+            } else if (phrase.length <= MAX_LABEL_WORDS && line[pi + 1] && !line[pi + 1][0].bold) {
+                // Whole phrase bold, value in the next column
+                add(phrase, untilNextLabel(line[pi + 1]), 'bold');
+            }
+        });
+    });
+
+    // ── Left-aligned label column ───────────────────────────────────────────
+    const candidates = linePhrases.filter(
+        (line) => line.length >= 2 && line[0].length <= MAX_LABEL_WORDS && !isTableRow(line)
+    );
+    for (const line of candidates) {
+        const left = line[0][0].bbox.x0;
+        const aligned = candidates.filter((other) => Math.abs(other[0][0].bbox.x0 - left) <= ALIGN_TOL);
+        if (aligned.length >= MIN_ALIGNED_LINES) add(line[0], untilNextLabel(line[1]), 'aligned');
+    }
+
+    // Reading order: by line, then left to right
+    const lineOf = new Map(lines.flatMap((line, li) => line.map((w) => [w.id, li] as const)));
+    return pairs.sort((a, b) => {
+        const la = lineOf.get(a.labelWords[0].id) ?? 0;
+        const lb = lineOf.get(b.labelWords[0].id) ?? 0;
+        return la - lb || a.labelWords[0].bbox.x0 - b.labelWords[0].bbox.x0;
+    });
+}
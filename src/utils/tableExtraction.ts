@@ -0,0 +1,64 @@
+import type { OCRBBox, OCRWord } from '../types';
+import { captureTextInBox } from './textCapture';
+import { groupWordsIntoLines } from './textLayout';
+
+/** Narrowest empty vertical strip (fraction of page width) taken as a column gutter */
+const MIN_COLUMN_GAP = 0.012;
+
+/** Row and column boundaries inside a table region (normalized [0,1]) */
+export interface TableGrid {
+    rows: number[];
+    columns: number[];
+}
+
+/** Words whose center lies inside `box` */
+function wordsInside(words: OCRWord[], box: OCRBBox): OCRWord[] {
+    return words.filter((w) => {
+        const cx = (w.bbox.x0 + w.bbox.x1) / 2;
+        const cy = (w.bbox.y0 + w.bbox.y1) / 2;
+        return cx >= box.x0 && cx <= box.x1 && cy >= box.y0 && cy <= box.y1;
+    });
+}
+
+/**
+ * Guess the grid of a table from the words inside `bbox`:
+ * - every text line is a row, split halfway between neighbouring lines
+ * - columns are split in the middle of every vertical strip that no word
+ *   crosses and that is at least `MIN_COLUMN_GAP` wide
+ *
+ * Cells wrapping over several lines come out as several rows; the column
+ * separators can be adjusted afterwards.
+ */
+export function inferTableGrid(words: OCRWord[], bbox: OCRBBox): TableGrid {
+    const inside = wordsInside(words, bbox);
+
+    const lines = groupWordsIntoLines(inside);
+    const rows: number[] = [];
+    for (let i = 1; i < lines.length; i++) {
+        const prevBottom = Math.max(...lines[i - 1].map((w) => w.bbox.y1));
+        const top = Math.min(...lines[i].map((w) => w.bbox.y0));
+        rows.push((prevBottom + top) / 2);
+    }
+
+    const spans = inside.map((w) => w.bbox).sort((a, b) => a.x0 - b.x0);
+    const columns: number[] = [];
+    let right = spans[0]?.x1 ?? bbox.x1;
+    for (const span of spans.slice(1)) {
+        if (span.x0 - right >= MIN_COLUMN_GAP) columns.push((right + span.x0) / 2);
+        right = Math.max(right, span.x1);
+    }
+
+    return { rows, columns };
+}
+
+/**
+ * Read every cell of the grid, row by row. Each cell is captured like a
+ * drawn field, so words straddling a separator are cut between characters.
+ */
+export function readTableCells(words: OCRWord[], bbox: OCRBBox, grid: TableGrid): string[][] {
+    const xs = [bbox.x0, ...grid.columns, bbox.x1];
+    const ys = [bbox.y0, ...grid.rows, bbox.y1];
+    return ys.slice(1).map((y1, r) =>
+        xs.slice(1).map((x1, c) => captureTextInBox(words, { x0: xs[c], y0: ys[r], x1, y1 }).text)
+    );
+}
@@ -11,8 +11,10 @@ interface CaptureResult {
  * Algorithm per word:
  *   1. Skip words whose vertical midpoint is outside the box (not on the right row).
  *   2. If the word is fully inside horizontally → take the whole word text.
- *   3. If the word partially overlaps → slice characters proportionally,
- *      assuming uniform character spacing within the word.
+ *   3. If the word partially overlaps → keep the characters whose horizontal
+ *      center is inside the box, using the word's per-character boxes when
+ *      it has them; otherwise slice proportionally, assuming uniform
+ *      character spacing within the word.
  *
  * Results are sorted in natural reading order (top → bottom, left → right).
  */
@@ -39,6 +41,16 @@ export function captureTextInBox(words: OCRWord[], box: OCRBBox): CaptureResult
         if (word.bbox.x0 >= box.x0 && word.bbox.x1 <= box.x1) {
             // Fully inside — keep entire word
             extracted = word.text;
+        } else if (word.chars?.length) {
+            // Partially inside — real character geometry
+            extracted = word.chars
+                .filter((c) => {
+                    const cx = (c.bbox.x0 + c.bbox.x1) / 2;
+                    return cx >= box.x0 && cx <= box.x1;
+                })
+                .map((c) => c.text)
+                .join('')
+                .trim();
         } else {
             // Partially inside — slice characters proportionally
             // (assuming uniform character width within the word)
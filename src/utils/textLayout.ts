@@ -0,0 +1,132 @@
+import type { OCRBBox, OCRResult, OCRTextRegion, OCRWord, TextGranularity } from '../types';
+
+/** Words whose vertical centers are this close (fraction of page height) share a line */
+const LINE_TOL = 0.008;
+/** Horizontal gap (fraction of page width) that separates two phrases on a line */
+export const PHRASE_GAP = 0.03;
+
+export interface LayoutLine {
+    bbox: OCRBBox;
+    words: OCRWord[];
+}
+
+export interface LayoutParagraph {
+    bbox: OCRBBox;
+    lines: LayoutLine[];
+}
+
+export interface LayoutBlock {
+    bbox: OCRBBox;
+    paragraphs: LayoutParagraph[];
+}
+
+export function unionBBox(boxes: OCRBBox[]): OCRBBox {
+    return {
+        x0: Math.min(...boxes.map((b) => b.x0)),
+        y0: Math.min(...boxes.map((b) => b.y0)),
+        x1: Math.max(...boxes.map((b) => b.x1)),
+        y1: Math.max(...boxes.map((b) => b.y1)),
+    };
+}
+
+/** Group words into text lines in reading order (top → bottom, left → right) */
+export function groupWordsIntoLines(words: OCRWord[]): OCRWord[][] {
+    const centerY = (w: OCRWord) => (w.bbox.y0 + w.bbox.y1) / 2;
+    const sorted = words.filter((w) => w.text.trim()).sort((a, b) => centerY(a) - centerY(b));
+    const lines: OCRWord[][] = [];
+    for (const word of sorted) {
+        const line = lines[lines.length - 1];
+        if (line && Math.abs(centerY(word) - centerY(line[0])) <= LINE_TOL) line.push(word);
+        else lines.push([word]);
+    }
+    return lines.map((line) => line.sort((a, b) => a.bbox.x0 - b.bbox.x0));
+}
+
+/** Split a line (words sorted left → right) into phrases at wide horizontal gaps */
+export function splitPhrases(line: OCRWord[]): OCRWord[][] {
+    const phrases: OCRWord[][] = [];
+    for (const word of line) {
+        const current = phrases[phrases.length - 1];
+        if (current && word.bbox.x0 - current[current.length - 1].bbox.x1 < PHRASE_GAP) current.push(word);
+        else phrases.push([word]);
+    }
+    return phrases;
+}
+
+/** Lines reported by the engine, or derived from word positions when it gave none */
+function lineRegions(result: OCRResult): OCRTextRegion[] {
+    if (result.lines) return result.lines;
+    return groupWordsIntoLines(result.words).map((line, i) => ({
+        id: `${result.pageNumber}-dl${i}`,
+        bbox: unionBBox(line.map((w) => w.bbox)),
+        wordIds: line.map((w) => w.id),
+    }));
+}
+
+/**
+ * Regions to show and select at `granularity`. Levels the engine did not
+ * report fall back to the next finer one (block → paragraph → line), so
+ * every result — embedded text included — can be worked with by line.
+ * Returns an empty list at word granularity.
+ */
+export function getTextRegions(result: OCRResult, granularity: TextGranularity): OCRTextRegion[] {
+    switch (granularity) {
+        case 'block':
+            return result.blocks ?? result.paragraphs ?? lineRegions(result);
+        case 'paragraph':
+            return result.paragraphs ?? lineRegions(result);
+        case 'line':
+            return lineRegions(result);
+        default:
+            return [];
+    }
+}
+
+/** Words of every line of a page, each line sorted left → right, in reading order */
+export function pageLines(result: OCRResult): OCRWord[][] {
+    const wordById = new Map(result.words.map((w) => [w.id, w]));
+    return lineRegions(result)
+        .map((region) => region.wordIds.map((id) => wordById.get(id)).filter((w): w is OCRWord => !!w))
+        .filter((line) => line.length > 0)
+        .map((line) => line.sort((a, b) => a.bbox.x0 - b.bbox.x0));
+}
+
+/**
+ * Full block → paragraph → line → word tree of a page, for structured
+ * exports. Missing levels become a single container spanning their children.
+ */
+export function layoutTree(result: OCRResult): LayoutBlock[] {
+    const wordById = new Map(result.words.map((w) => [w.id, w]));
+    const lines = lineRegions(result);
+    if (lines.length === 0) return [];
+
+    const whole: OCRTextRegion = {
+        id: `${result.pageNumber}-page`,
+        bbox: unionBBox(lines.map((l) => l.bbox)),
+        wordIds: lines.flatMap((l) => l.wordIds),
+    };
+    const paragraphs = result.paragraphs ?? result.blocks ?? [whole];
+    const blocks = result.blocks ?? (result.paragraphs ? [whole] : paragraphs);
+
+    /** Index of the container holding each word — a child goes where its first word is */
+    const indexOf = (containers: OCRTextRegion[]) => {
+        const map = new Map<string, number>();
+        containers.forEach((c, i) => c.wordIds.forEach((id) => map.set(id, i)));
+        return (region: OCRTextRegion) => map.get(region.wordIds[0]) ?? containers.length - 1;
+    };
+    const paragraphOf = indexOf(paragraphs);
+    const blockOf = indexOf(blocks);
+
+    const tree: LayoutBlock[] = blocks.map((b) => ({ bbox: b.bbox, paragraphs: [] }));
+    const paragraphNodes: LayoutParagraph[] = paragraphs.map((p) => ({ bbox: p.bbox, lines: [] }));
+
+    for (const line of lines) {
+        const words = line.wordIds.map((id) => wordById.get(id)).filter((w): w is OCRWord => !!w);
+        if (words.length > 0) paragraphNodes[paragraphOf(line)].lines.push({ bbox: line.bbox, words });
+    }
+    paragraphs.forEach((p, i) => {
+        if (paragraphNodes[i].lines.length > 0) tree[blockOf(p)].paragraphs.push(paragraphNodes[i]);
+    });
+
+    return tree.filter((b) => b.paragraphs.length > 0);
+}
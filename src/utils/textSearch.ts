@@ -0,0 +1,143 @@
+import type { OCRResult, OCRWord } from '../types';
+import { pageLines, splitPhrases } from './textLayout';
+
+/** Text of some words plus where each word sits in it */
+export interface WordText {
+    text: string;
+    spans: { word: OCRWord; start: number; end: number }[];
+}
+
+/**
+ * Join lines (each sorted left → right) into one searchable string. Words
+ * are joined by single spaces, phrases by tabs and lines by newlines, so a
+ * pattern that only allows spaces stays within one phrase.
+ */
+export function wordText(lines: OCRWord[][]): WordText {
+    let text = '';
+    const spans: WordText['spans'] = [];
+    lines.forEach((line, li) => {
+        if (li > 0) text += '\n';
+        splitPhrases(line).forEach((phrase, pi) => {
+            if (pi > 0) text += '\t';
+            phrase.forEach((word, wi) => {
+                if (wi > 0) text += ' ';
+                spans.push({ word, start: text.length, end: text.length + word.text.length });
+                text += word.text;
+            });
+        });
+    });
+    return { text, spans };
+}
+
+/** Words overlapping the character range [start, end) of `source` */
+export function wordsInRange(source: WordText, start: number, end: number): OCRWord[] {
+    return source.spans.filter((s) => s.start < end && s.end > start).map((s) => s.word);
+}
+
+/** Case-insensitive pattern for a phrase, allowing any spacing between its words */
+export function phrasePattern(phrase: string): RegExp {
+    const parts = phrase.trim().split(/\s+/).map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(parts.join('[ \\t]+'), 'gi');
+}
+
+/** Every occurrence of `phrase` on the page, as the words it covers, in reading order */
+export function findPhrase(result: OCRResult, phrase: string): OCRWord[][] {
+    if (!phrase.trim()) return [];
+    const page = wordText(pageLines(result));
+    return Array.from(page.text.matchAll(phrasePattern(phrase)), (m) =>
+        wordsInRange(page, m.index ?? 0, (m.index ?? 0) + m[0].length)
+    );
+}
+
+/** How a search query is read */
+export type SearchMode = 'phrase' | 'regex';
+
+/** One occurrence of a search query */
+export interface SearchHit {
+    /** Stable within one search: page plus position in the page text */
+    id: string;
+    pageNumber: number;
+    /** Matched words in reading order — may run over several lines */
+    words: OCRWord[];
+    /** Matched text as it appears on the page */
+    text: string;
+    /** Page text just before and after the match, on one line */
+    before: string;
+    after: string;
+}
+
+/** Characters of context kept on each side of a hit */
+const CONTEXT_CHARS = 30;
+/** Searches stop collecting after this many hits */
+export const MAX_SEARCH_HITS = 1000;
+
+/**
+ * `text` with diacritics removed and compatibility characters (ligatures,
+ * full-width forms) expanded, plus for every folded character the index it
+ * came from in `text` — folding may change the length.
+ */
+function foldText(text: string): { folded: string; origin: number[] } {
+    let folded = '';
+    const origin: number[] = [];
+    let index = 0;
+    for (const char of text) {
+        const f = char.normalize('NFKD').replace(/\p{M}/gu, '');
+        for (let i = 0; i < f.length; i++) origin.push(index);
+        folded += f;
+        index += char.length;
+    }
+    origin.push(text.length);
+    return { folded, origin };
+}
+
+/** Search pattern over folded text; throws a SyntaxError for an invalid regex */
+function searchPattern(query: string, mode: SearchMode): RegExp {
+    const { folded } = foldText(query.trim());
+    if (mode === 'regex') return new RegExp(folded, 'gim');
+    // Phrase words may be split over phrases and lines on the page
+    const parts = folded.split(/\s+/).map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    return new RegExp(parts.join('\\s+'), 'gi');
+}
+
+const oneLine = (s: string) => s.replace(/\s+/g, ' ');
+
+/**
+ * Find `query` on every OCR'd page, ignoring case and diacritics: as a
+ * phrase (words in order, any spacing) or as a regular expression. Hits come
+ * back by page, then in reading order.
+ *
+ * @throws SyntaxError when `mode` is 'regex' and the pattern is invalid
+ */
+export function searchDocument(
+    ocrResults: Map<number, OCRResult>,
+    query: string,
+    mode: SearchMode
+): SearchHit[] {
+    if (!query.trim()) return [];
+    const pattern = searchPattern(query, mode);
+    const hits: SearchHit[] = [];
+
+    for (const pageNumber of Array.from(ocrResults.keys()).sort((a, b) => a - b)) {
+        const page = wordText(pageLines(ocrResults.get(pageNumber)!));
+        const { folded, origin } = foldText(page.text);
+        for (const match of folded.matchAll(pattern)) {
+            if (hits.length >= MAX_SEARCH_HITS) return hits;
+            if (!match[0]) continue;
+            const matchEnd = (match.index ?? 0) + match[0].length;
+            const start = origin[match.index ?? 0];
+            // A match ending inside an expanded character (e.g. "f" of "ﬁ") still covers that character
+            const end = Math.max(origin[matchEnd], origin[matchEnd - 1] + 1);
+            const words = wordsInRange(page, start, end);
+            if (words.length === 0) continue;
+            hits.push({
+                id: `${pageNumber}-${start}`,
+                pageNumber,
+                words,
+                text: page.text.slice(start, end),
+                before: oneLine(page.text.slice(Math.max(0, start - CONTEXT_CHARS), start)).trimStart(),
+                after: oneLine(page.text.slice(end, end + CONTEXT_CHARS)).trimEnd(),
+            });
+        }
+    }
+    return hits;
+}
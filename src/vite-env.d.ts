@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** Base URL of the self-hosted pdf.js / Tesseract assets (default: `<base>vendor/`) */
+    readonly VITE_ASSET_BASE?: string;
+}
+
+interface ImportMeta {
+    readonly env: ImportMetaEnv;
+}
@@ -1,9 +1,92 @@
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createRequire } from 'node:module';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const require = createRequire(import.meta.url);
+
+/** Directory (under the app's base URL) the self-hosted assets are served from */
+const VENDOR_DIR = 'vendor';
+
+/** Tesseract languages bundled for offline use — keep in sync with OCR_LANGUAGES */
+const OCR_LANGS = ['eng', 'deu', 'fra', 'spa', 'ita', 'nld', 'por'];
+
+/** Resolve a package's root directory from node_modules */
+const pkgDir = (name: string) => path.dirname(require.resolve(`${name}/package.json`));
+
+/**
+ * Map of served path (relative to VENDOR_DIR) → absolute file on disk for
+ * every runtime asset pdf.js and Tesseract.js would otherwise fetch from a CDN.
+ */
+function vendorAssets(): Map<string, string> {
+    const assets = new Map<string, string>();
+    const addDir = (dir: string, target: string, filter: (f: string) => boolean = () => true) => {
+        for (const file of fs.readdirSync(dir).filter(filter)) {
+            assets.set(`${target}/${file}`, path.join(dir, file));
+        }
+    };
+
+    // pdf.js worker, CMaps and standard fonts
+    const pdfjs = pkgDir('pdfjs-dist');
+    assets.set('pdfjs/pdf.worker.min.mjs', path.join(pdfjs, 'build', 'pdf.worker.min.mjs'));
+    addDir(path.join(pdfjs, 'cmaps'), 'pdfjs/cmaps');
+    addDir(path.join(pdfjs, 'standard_fonts'), 'pdfjs/standard_fonts');
+
+    // Tesseract.js worker script and every WASM core build (picked at runtime by CPU features)
+    assets.set('tesseract/worker.min.js', path.join(pkgDir('tesseract.js'), 'dist', 'worker.min.js'));
+    addDir(pkgDir('tesseract.js-core'), 'tesseract/core', (f) => f.startsWith('tesseract-core'));
+
+    // LSTM-only ("best_int") traineddata, matching the OEM used by createWorker
+    for (const lang of OCR_LANGS) {
+        const file = `${lang}.traineddata.gz`;
+        assets.set(`tesseract/lang/${file}`, path.join(pkgDir(`@tesseract.js-data/${lang}`), '4.0.0_best_int', file));
+    }
+
+    return assets;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.js': 'text/javascript',
+    '.mjs': 'text/javascript',
+    '.wasm': 'application/wasm',
+    '.gz': 'application/gzip',
+};
+
+/**
+ * Serve (dev) and emit (build) pdf.js and Tesseract.js runtime assets from
+ * the app's own origin, so rendering and OCR work with no network access.
+ */
+function selfHostedAssets(): Plugin {
+    const assets = vendorAssets();
+    let base = '/';
+
+    return {
+        name: 'self-hosted-assets',
+        configResolved(config) {
+            base = config.base;
+        },
+        configureServer(server) {
+            const prefix = `${base}${VENDOR_DIR}/`;
+            server.middlewares.use((req, res, next) => {
+                const url = req.url?.split('?')[0];
+                const file = url?.startsWith(prefix) ? assets.get(url.slice(prefix.length)) : undefined;
+                if (!file) return next();
+                res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream');
+                fs.createReadStream(file).pipe(res);
+            });
+        },
+        generateBundle() {
+            for (const [fileName, file] of assets) {
+                this.emitFile({ type: 'asset', fileName: `${VENDOR_DIR}/${fileName}`, source: fs.readFileSync(file) });
+            }
+        },
+    };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
-    plugins: [react()],
+    plugins: [react(), selfHostedAssets()],
     server: {
         headers: {
             // Required for SharedArrayBuffer used by Tesseract.js WASM